@@ -1,5 +1,21 @@
 import { ThreadloafState } from "./ThreadloafState";
-import { MessageInfo } from "./MessageInfo";
+import { ForwardedMessage, MessageAttachment, MessageInfo, MessagePoll, MessageReaction } from "./MessageInfo";
+import { MessageParser } from "./MessageParser";
+import { EditHistory } from "./EditHistory";
+import { VirtualThreadList } from "./VirtualThreadList";
+import { Lifecycle } from "./Lifecycle";
+
+// What a message row needs to know beyond the message itself
+export interface MessageElementOptions {
+    color: string; // Preview text color; newer messages stand out more
+    isBold: boolean; // Set for the newest message
+    commentNumber: number; // Position in chronological order, starting at 1
+    totalMessages: number;
+    ancestors: MessageInfo[]; // Messages above this one in its thread, root first
+    onToggleCollapsed: () => void;
+    onContinueThread: () => void;
+    onFocus: () => void;
+}
 
 /**
  * Handles DOM manipulation and UI element creation for the Threadloaf interface.
@@ -9,51 +25,57 @@ import { MessageInfo } from "./MessageInfo";
  */
 export class DomMutator {
     private state: ThreadloafState;
-
-    constructor(state: ThreadloafState) {
+    private threadList: VirtualThreadList;
+    private lifecycle: Lifecycle;
+    private menuScope: Lifecycle | null = null;
+    private hiddenHeader: HTMLElement | null = null;
+    private headerScope: Lifecycle | null = null; // Gives the hidden header back
+    private scrollerScopes = new Map<string, Lifecycle>(); // Scroll override styles by scroller class
+
+    constructor(state: ThreadloafState, threadList: VirtualThreadList, lifecycle: Lifecycle) {
         this.state = state;
+        this.threadList = threadList;
+        this.lifecycle = lifecycle;
     }
 
     public addScrollerStyle(scrollerClass: string): void {
-        const styleId = `threadloaf-scroller-style-${scrollerClass}`;
-        // Remove any existing style first
-        const existingStyle = document.getElementById(styleId);
-        if (existingStyle) {
-            existingStyle.remove();
+        // This runs on every re-render in thread view, so leave an existing style alone
+        if (this.scrollerScopes.has(scrollerClass)) {
+            return;
         }
 
+        // Each style gets a scope of its own, so removing it leaves nothing behind in the lifecycle
+        const scope = this.lifecycle.createScope();
+        scope.onDispose(() => this.scrollerScopes.delete(scrollerClass));
+        this.scrollerScopes.set(scrollerClass, scope);
+
         const style = document.createElement("style");
-        style.id = styleId;
+        style.id = `threadloaf-scroller-style-${scrollerClass}`;
         style.textContent = `
             div.${scrollerClass} {
                 overflow-y: hidden !important;
             }
         `;
-        document.head.appendChild(style);
+        scope.mount(style, document.head);
     }
 
     public removeScrollerStyle(scrollerClass: string): void {
-        const styleId = `threadloaf-scroller-style-${scrollerClass}`;
-        const existingStyle = document.getElementById(styleId);
-        if (existingStyle) {
-            existingStyle.remove();
-        }
+        this.scrollerScopes.get(scrollerClass)?.dispose();
     }
 
     // Create a message element
-    public createMessageElement(
-        message: MessageInfo,
-        depth: number,
-        color: string,
-        isBold: boolean,
-        commentNumber: number,
-        totalMessages: number,
-    ): HTMLElement {
+    public createMessageElement(message: MessageInfo, options: MessageElementOptions): HTMLElement {
+        const { color, isBold, commentNumber, totalMessages, ancestors, onToggleCollapsed, onContinueThread, onFocus } =
+            options;
         const el = document.createElement("div");
         el.classList.add("threadloaf-message");
         if (message.isError) {
             el.dataset.isError = "true";
         }
+        if (message.placement?.isInferred) {
+            // Drawn with a dashed connector so guesses don't look like real replies
+            el.classList.add("inferred-reply");
+        }
         el.style.width = "100%";
 
         // Preview container (always visible)
@@ -68,9 +90,6 @@ export class DomMutator {
         const temp = document.createElement("div");
         temp.innerHTML = message.htmlContent;
 
-        // Remove reactions
-        temp.querySelectorAll('[class*="reactions_"]').forEach((el) => el.remove());
-
         // Replace emoji images with their alt text
         temp.querySelectorAll('img[class*="emoji"]').forEach((img) => {
             if (img instanceof HTMLImageElement) {
@@ -86,8 +105,16 @@ export class DomMutator {
             el.replaceWith(" " + (el.textContent || "") + " ");
         });
 
-        // Get text and normalize whitespace
-        contentPreview.textContent = temp.textContent?.replace(/\s+/g, " ").trim() || "";
+        // Get text and normalize whitespace, then point out any forward, poll, or attachments
+        const previewText = temp.textContent?.replace(/\s+/g, " ").trim() || "";
+        contentPreview.textContent = [
+            previewText,
+            message.forwarded ? MessageParser.summarizeForwarded(message.forwarded) : "",
+            message.poll ? MessageParser.summarizePoll(message.poll) : "",
+            MessageParser.summarizeAttachments(message.attachments || []),
+        ]
+            .filter((text) => text)
+            .join(" ");
 
         contentPreview.style.color = color;
         if (isBold) {
@@ -98,14 +125,19 @@ export class DomMutator {
         separator.classList.add("separator");
         separator.textContent = " : ";
 
-        const authorSpan = document.createElement("span");
-        authorSpan.classList.add("message-author");
-        authorSpan.textContent = message.author;
+        const authorSpan = this.createAuthorElement(message, "message-author");
+
+        if (message.isUnread) {
+            el.classList.add("unread");
+            previewContainer.appendChild(this.createNewMarker());
+        }
 
         previewContainer.appendChild(contentPreview);
 
         previewContainer.appendChild(separator);
         previewContainer.appendChild(authorSpan);
+        this.appendReplyCount(previewContainer, message, onContinueThread);
+        this.prependCollapseToggle(previewContainer, message, onToggleCollapsed);
 
         // Full content container (shown when expanded)
         const fullContentContainer = document.createElement("div");
@@ -115,13 +147,43 @@ export class DomMutator {
         const headerContainer = document.createElement("div");
         headerContainer.classList.add("expanded-header");
 
-        const expandedAuthor = document.createElement("span");
-        expandedAuthor.classList.add("expanded-author");
-        expandedAuthor.textContent = message.author;
+        const expandedAuthor = this.createAuthorElement(message, "expanded-author");
 
         const rightContainer = document.createElement("div");
         rightContainer.classList.add("expanded-header-right");
 
+        // Edited messages get a badge that shows the edit history
+        let editHistoryEl: HTMLElement | null = null;
+        if (message.isEdited) {
+            editHistoryEl = this.createEditHistoryElement(message);
+            editHistoryEl.style.display = "none";
+
+            const editedBadge = document.createElement("button");
+            editedBadge.classList.add("edited-badge");
+            editedBadge.textContent = "edited";
+            if (message.editedAt) {
+                editedBadge.title = `Edited ${new Date(message.editedAt).toLocaleString()}`;
+            }
+            editedBadge.onclick = (e) => {
+                e.stopPropagation();
+                if (!editHistoryEl) return;
+                const isHidden = editHistoryEl.style.display === "none";
+                editHistoryEl.style.display = isHidden ? "block" : "none";
+                editedBadge.classList.toggle("active", isHidden);
+            };
+            rightContainer.appendChild(editedBadge);
+        }
+
+        // Explain which threading rule put this message where it is
+        if (message.placement) {
+            const placementInfo = document.createElement("span");
+            placementInfo.classList.add("placement-info");
+            placementInfo.textContent = "ⓘ";
+            placementInfo.title = message.placement.reason;
+            placementInfo.setAttribute("aria-label", message.placement.reason);
+            rightContainer.appendChild(placementInfo);
+        }
+
         // Add navigation arrows
         const prevArrow = document.createElement("button");
         prevArrow.classList.add("nav-arrow", "prev");
@@ -129,30 +191,14 @@ export class DomMutator {
         prevArrow.disabled = commentNumber === 1;
         prevArrow.onclick = (e) => {
             e.stopPropagation();
-            // Find the message with the next lowest timestamp
-            const currentTimestamp = message.timestamp;
-            const targetMessage = Array.from(document.querySelectorAll(".threadloaf-message"))
-                .map((el) => ({
-                    element: el as HTMLElement,
-                    timestamp: parseInt((el as HTMLElement).dataset.timestamp || "0"),
-                }))
-                .filter((m) => m.timestamp < currentTimestamp)
-                .sort((a, b) => b.timestamp - a.timestamp)[0]?.element;
+            // Find the message with the next lowest timestamp, whether or not its row is mounted
+            const targetMessage = this.threadList
+                .getExpandableMessages()
+                .filter((m) => m.timestamp < message.timestamp)
+                .sort((a, b) => b.timestamp - a.timestamp)[0];
 
             if (targetMessage) {
-                // Collapse current message
-                el.classList.remove("expanded");
-                previewContainer.style.display = "flex";
-                fullContentContainer.style.display = "none";
-
-                // Expand target message
-                targetMessage.classList.add("expanded");
-                const targetPreview = targetMessage.querySelector(".preview-container") as HTMLElement;
-                const targetFull = targetMessage.querySelector(".full-content") as HTMLElement;
-                if (targetPreview) targetPreview.style.display = "none";
-                if (targetFull) targetFull.style.display = "block";
-
-                targetMessage.scrollIntoView({ behavior: "smooth", block: "center" });
+                this.threadList.expandMessage(targetMessage.id, "smooth");
             }
         };
 
@@ -163,21 +209,11 @@ export class DomMutator {
         upArrow.onclick = (e) => {
             e.stopPropagation();
             if (message.parentId) {
-                const parentEl = document.querySelector(`[data-msg-id="${message.parentId}"]`) as HTMLElement;
-                if (parentEl) {
-                    // Collapse current message
-                    el.classList.remove("expanded");
-                    previewContainer.style.display = "flex";
-                    fullContentContainer.style.display = "none";
-
-                    // Expand parent message
-                    parentEl.classList.add("expanded");
-                    const parentPreview = parentEl.querySelector(".preview-container") as HTMLElement;
-                    const parentFull = parentEl.querySelector(".full-content") as HTMLElement;
-                    if (parentPreview) parentPreview.style.display = "none";
-                    if (parentFull) parentFull.style.display = "block";
-
-                    parentEl.scrollIntoView({ behavior: "smooth", block: "center" });
+                if (this.threadList.canExpand(message.parentId)) {
+                    this.threadList.expandMessage(message.parentId, "smooth");
+                } else {
+                    // The parent is a placeholder or marker that can't be expanded; just bring it into view
+                    this.threadList.scrollToMessage(message.parentId, "smooth");
                 }
             }
         };
@@ -188,33 +224,27 @@ export class DomMutator {
         nextArrow.disabled = commentNumber === totalMessages;
         nextArrow.onclick = (e) => {
             e.stopPropagation();
-            // Find the message with the next highest timestamp
-            const currentTimestamp = message.timestamp;
-            const targetMessage = Array.from(document.querySelectorAll(".threadloaf-message"))
-                .map((el) => ({
-                    element: el as HTMLElement,
-                    timestamp: parseInt((el as HTMLElement).dataset.timestamp || "0"),
-                }))
-                .filter((m) => m.timestamp > currentTimestamp)
-                .sort((a, b) => a.timestamp - b.timestamp)[0]?.element;
+            // Find the message with the next highest timestamp, whether or not its row is mounted
+            const targetMessage = this.threadList
+                .getExpandableMessages()
+                .filter((m) => m.timestamp > message.timestamp)
+                .sort((a, b) => a.timestamp - b.timestamp)[0];
 
             if (targetMessage) {
-                // Collapse current message
-                el.classList.remove("expanded");
-                previewContainer.style.display = "flex";
-                fullContentContainer.style.display = "none";
-
-                // Expand target message
-                targetMessage.classList.add("expanded");
-                const targetPreview = targetMessage.querySelector(".preview-container") as HTMLElement;
-                const targetFull = targetMessage.querySelector(".full-content") as HTMLElement;
-                if (targetPreview) targetPreview.style.display = "none";
-                if (targetFull) targetFull.style.display = "block";
-
-                targetMessage.scrollIntoView({ behavior: "smooth", block: "center" });
+                this.threadList.expandMessage(targetMessage.id, "smooth");
             }
         };
 
+        // Show only this message's conversation
+        const focusButton = document.createElement("button");
+        focusButton.classList.add("focus-button");
+        focusButton.textContent = "Focus";
+        focusButton.title = "Show only the messages above this one and its replies";
+        focusButton.onclick = (e) => {
+            e.stopPropagation();
+            onFocus();
+        };
+
         // Create and add the Actions button
         const replyButton = document.createElement("button");
         replyButton.classList.add("reply-button");
@@ -234,16 +264,17 @@ export class DomMutator {
                 return;
             }
 
-            // Set up menu positioning style before triggering context menu
+            // Set up menu positioning style before triggering context menu, replacing whatever an earlier
+            // click set up
+            this.menuScope?.dispose();
+            const menuScope = this.lifecycle.createScope();
+            this.menuScope = menuScope;
+
             const buttonRect = replyButton.getBoundingClientRect();
             const isBottomHalf = buttonRect.bottom > window.innerHeight / 2;
-            const styleId = "threadloaf-menu-position";
-            let styleEl = document.getElementById(styleId);
-            if (!styleEl) {
-                styleEl = document.createElement("style");
-                styleEl.id = styleId;
-                document.head.appendChild(styleEl);
-            }
+            const styleEl = document.createElement("style");
+            styleEl.id = "threadloaf-menu-position";
+            menuScope.mount(styleEl, document.head);
 
             // Update the style with the new position, aligning menu's right with button's right
             styleEl.textContent = `
@@ -255,15 +286,16 @@ export class DomMutator {
             `;
 
             // Set up a mutation observer to watch for the menu being removed
-            const observer = new MutationObserver((mutations) => {
-                // Does div.menu_* still exist on the page?
-                const menuExists = document.querySelector('div[class*="menu_"]');
-                if (!menuExists) {
-                    // Menu was removed, clean up our styles
-                    styleEl.remove();
-                    observer.disconnect();
-                }
-            });
+            const observer = menuScope.observe(
+                new MutationObserver(() => {
+                    // Does div.menu_* still exist on the page?
+                    const menuExists = document.querySelector('div[class*="menu_"]');
+                    if (!menuExists) {
+                        // Menu was removed, clean up our styles and this observer
+                        menuScope.dispose();
+                    }
+                }),
+            );
 
             // Start observing the document body for removed nodes
             observer.observe(document.body, { childList: true, subtree: true });
@@ -289,9 +321,13 @@ export class DomMutator {
         rightContainer.appendChild(prevArrow);
         rightContainer.appendChild(upArrow);
         rightContainer.appendChild(nextArrow);
+        rightContainer.appendChild(focusButton);
         rightContainer.appendChild(replyButton);
 
         headerContainer.appendChild(expandedAuthor);
+        if (ancestors.length > 0) {
+            headerContainer.appendChild(this.createAncestorBreadcrumb(ancestors));
+        }
         headerContainer.appendChild(rightContainer);
 
         const messageContent = document.createElement("div");
@@ -299,8 +335,29 @@ export class DomMutator {
         messageContent.innerHTML = message.htmlContent;
 
         fullContentContainer.appendChild(headerContainer);
+        if (editHistoryEl) {
+            fullContentContainer.appendChild(editHistoryEl);
+        }
         fullContentContainer.appendChild(messageContent);
 
+        if (message.forwarded) {
+            fullContentContainer.appendChild(this.createForwardedElement(message.forwarded));
+        }
+
+        if (message.poll) {
+            fullContentContainer.appendChild(this.createPollElement(message.poll));
+        }
+
+        // Render attachments with the element that suits each type
+        if (message.attachments && message.attachments.length > 0) {
+            const attachmentsContainer = document.createElement("div");
+            attachmentsContainer.classList.add("attachments-container");
+            message.attachments.forEach((attachment) => {
+                attachmentsContainer.appendChild(this.createAttachmentElement(attachment));
+            });
+            fullContentContainer.appendChild(attachmentsContainer);
+        }
+
         // Create a container for embeds if they exist
         const embedsContainer = document.createElement("div");
         embedsContainer.classList.add("embeds-container");
@@ -322,15 +379,14 @@ export class DomMutator {
         const reactionsLeft = document.createElement("div");
         reactionsLeft.classList.add("reactions-left");
 
-        // Move existing reactions if present
-        const reactionsClone = fullContentContainer.querySelector('[class*="reactions_"]');
-        if (reactionsClone) {
-            reactionsClone.remove();
-            // Create a wrapper for existing reactions
-            const existingReactions = document.createElement("div");
-            existingReactions.classList.add("existing-reactions");
-            existingReactions.appendChild(reactionsClone);
-            reactionsLeft.appendChild(existingReactions);
+        // Add a chip for each reaction; clicking one toggles the reaction on the original message
+        if (message.reactions && message.reactions.length > 0) {
+            const reactionChips = document.createElement("div");
+            reactionChips.classList.add("reaction-chips");
+            message.reactions.forEach((reaction) => {
+                reactionChips.appendChild(this.createReactionChip(message, reaction));
+            });
+            reactionsLeft.appendChild(reactionChips);
         }
 
         // Create timestamp for the right side
@@ -356,36 +412,579 @@ export class DomMutator {
                 return;
             }
 
-            // Collapse any other expanded messages first
-            document.querySelectorAll(".threadloaf-message.expanded").forEach((expandedEl) => {
-                if (expandedEl !== el) {
-                    expandedEl.classList.remove("expanded");
-                    const prevContainer = expandedEl.querySelector(".preview-container") as HTMLElement;
-                    const prevFullContent = expandedEl.querySelector(".full-content") as HTMLElement;
-                    if (prevContainer) prevContainer.style.display = "flex";
-                    if (prevFullContent) prevFullContent.style.display = "none";
+            // Expand this message, collapsing any other
+            this.threadList.expandMessage(message.id);
+        });
+
+        // When creating the element, store the timestamp
+        el.dataset.timestamp = message.timestamp.toString();
+
+        // Rows are rebuilt as they scroll in and out of view, so the expanded state lives in the state object
+        if (this.state.expandedMessageId === message.id) {
+            VirtualThreadList.setExpanded(el, true);
+        }
+
+        return el;
+    }
+
+    // Show the messages above a reply, from the top of the thread down, so its context can be seen without going up
+    // one level at a time. Long chains keep the top and the closest few, and hovering a crumb previews its message.
+    private createAncestorBreadcrumb(ancestors: MessageInfo[]): HTMLElement {
+        const MAX_CRUMBS = 4;
+        const shown = ancestors.length > MAX_CRUMBS ? [ancestors[0], null, ...ancestors.slice(-2)] : ancestors;
+        const skipped = ancestors.slice(1, -2);
+
+        const breadcrumb = document.createElement("nav");
+        breadcrumb.classList.add("ancestor-breadcrumb");
+        shown.forEach((ancestor, index) => {
+            if (index > 0) {
+                const separator = document.createElement("span");
+                separator.classList.add("crumb-separator");
+                separator.textContent = "›";
+                breadcrumb.appendChild(separator);
+            }
+
+            if (!ancestor) {
+                const ellipsis = document.createElement("span");
+                ellipsis.classList.add("ancestor-crumb", "skipped");
+                ellipsis.textContent = "…";
+                ellipsis.title = skipped.map((message) => message.author).join(" › ");
+                breadcrumb.appendChild(ellipsis);
+                return;
+            }
+
+            const crumb = document.createElement("button");
+            crumb.classList.add("ancestor-crumb");
+            const content = ancestor.content.replace(/\s+/g, " ").trim();
+            const snippet = content.length > 20 ? `${content.slice(0, 20)}…` : content;
+            crumb.textContent = ancestor.author ? `${ancestor.author}: ${snippet}` : snippet;
+            const preview = content.length > 300 ? `${content.slice(0, 300)}…` : content;
+            crumb.title = ancestor.author ? `${ancestor.author}: ${preview}` : preview;
+            crumb.onclick = (e) => {
+                e.stopPropagation();
+                if (this.threadList.canExpand(ancestor.id)) {
+                    this.threadList.expandMessage(ancestor.id, "smooth");
+                } else {
+                    // Placeholders and tombstones can't be expanded; just bring them into view
+                    this.threadList.scrollToMessage(ancestor.id, "smooth");
+                }
+            };
+            breadcrumb.appendChild(crumb);
+        });
+
+        return breadcrumb;
+    }
+
+    // List the versions of an edited message seen this session, each diffed against the one before
+    private createEditHistoryElement(message: MessageInfo): HTMLElement {
+        const container = document.createElement("div");
+        container.classList.add("edit-history");
+
+        const revisions = message.revisions || [];
+        if (revisions.length < 2) {
+            const note = document.createElement("div");
+            note.classList.add("edit-history-note");
+            note.textContent =
+                "This message was edited before Threadloaf saw it, so earlier versions aren't available.";
+            container.appendChild(note);
+            return container;
+        }
+
+        for (let i = 1; i < revisions.length; i++) {
+            const revision = document.createElement("div");
+            revision.classList.add("edit-revision");
+
+            const label = document.createElement("div");
+            label.classList.add("edit-revision-label");
+            label.textContent = `Edit ${i} · seen ${new Date(revisions[i].seenAt).toLocaleTimeString()}`;
+            revision.appendChild(label);
+
+            const diff = document.createElement("div");
+            diff.classList.add("edit-diff");
+            EditHistory.diffWords(revisions[i - 1].content, revisions[i].content).forEach((part, index) => {
+                if (index > 0) {
+                    diff.appendChild(document.createTextNode(" "));
                 }
+                const el = document.createElement(
+                    part.type === "added" ? "ins" : part.type === "removed" ? "del" : "span",
+                );
+                el.textContent = part.text;
+                diff.appendChild(el);
+            });
+            revision.appendChild(diff);
+
+            container.appendChild(revision);
+        }
+
+        return container;
+    }
+
+    // Show a forwarded message as a quote block, with a link back to where it came from
+    private createForwardedElement(forwarded: ForwardedMessage): HTMLElement {
+        const quote = document.createElement("blockquote");
+        quote.classList.add("forwarded-message");
+
+        const origin = document.createElement(forwarded.url ? "a" : "div");
+        origin.classList.add("forwarded-origin");
+        origin.textContent = `↪️ Forwarded${forwarded.origin ? ` from ${forwarded.origin}` : ""}`;
+        if (origin instanceof HTMLAnchorElement && forwarded.url) {
+            origin.href = forwarded.url;
+            origin.target = "_blank";
+            origin.rel = "noopener noreferrer";
+        }
+        if (forwarded.timestamp) {
+            origin.title = new Date(forwarded.timestamp).toLocaleString();
+        }
+        quote.appendChild(origin);
+
+        const content = document.createElement("div");
+        content.classList.add("forwarded-content");
+        content.innerHTML = forwarded.htmlContent;
+        quote.appendChild(content);
+
+        if (forwarded.attachments && forwarded.attachments.length > 0) {
+            const attachmentsContainer = document.createElement("div");
+            attachmentsContainer.classList.add("attachments-container");
+            forwarded.attachments.forEach((attachment) => {
+                attachmentsContainer.appendChild(this.createAttachmentElement(attachment));
             });
+            quote.appendChild(attachmentsContainer);
+        }
+
+        return quote;
+    }
 
-            // Expand this message
-            el.classList.add("expanded");
-            previewContainer.style.display = "none";
-            fullContentContainer.style.display = "block";
+    // Show a poll's question and answers; voting still happens in Discord's own view
+    private createPollElement(poll: MessagePoll): HTMLElement {
+        const container = document.createElement("div");
+        container.classList.add("poll");
+
+        const question = document.createElement("div");
+        question.classList.add("poll-question");
+        question.textContent = `📊 ${poll.question}`;
+        container.appendChild(question);
+
+        // Discord hides per-answer counts until you vote or the poll ends
+        const hasResults = poll.answers.some((answer) => answer.votes > 0);
+        const answers = document.createElement("ul");
+        answers.classList.add("poll-answers");
+        poll.answers.forEach((answer) => {
+            const item = document.createElement("li");
+            item.classList.add("poll-answer");
+
+            const text = document.createElement("span");
+            text.textContent = answer.text;
+            item.appendChild(text);
+
+            if (hasResults) {
+                const votes = document.createElement("span");
+                votes.classList.add("poll-answer-votes");
+                votes.textContent = `${answer.votes}`;
+                item.appendChild(votes);
+            }
+
+            answers.appendChild(item);
         });
+        container.appendChild(answers);
 
-        // When creating the element, store the timestamp
+        const total = document.createElement("div");
+        total.classList.add("poll-total");
+        total.textContent = `${poll.totalVotes} ${poll.totalVotes === 1 ? "vote" : "votes"}`;
+        container.appendChild(total);
+
+        return container;
+    }
+
+    private createAttachmentElement(attachment: MessageAttachment): HTMLElement {
+        const item = document.createElement("div");
+        item.classList.add("attachment", `attachment-${attachment.type}`);
+
+        switch (attachment.type) {
+            case "image":
+            case "sticker": {
+                const link = document.createElement("a");
+                link.href = attachment.url;
+                link.target = "_blank";
+                link.rel = "noopener noreferrer";
+                const img = document.createElement("img");
+                img.src = attachment.previewUrl || attachment.url;
+                img.alt = attachment.name || (attachment.type === "sticker" ? "Sticker" : "Image");
+                img.title = attachment.name || "";
+                img.loading = "lazy";
+                link.appendChild(img);
+                item.appendChild(link);
+                break;
+            }
+            case "gif": {
+                // GIFs from Tenor and friends are really looping videos
+                const isVideo = !/\.gif(\?|$)/i.test(attachment.url);
+                const media = document.createElement(isVideo ? "video" : "img") as HTMLVideoElement | HTMLImageElement;
+                media.src = attachment.url;
+                if (media instanceof HTMLVideoElement) {
+                    media.autoplay = true;
+                    media.loop = true;
+                    media.muted = true;
+                    media.playsInline = true;
+                    media.poster = attachment.previewUrl || "";
+                } else {
+                    media.alt = "GIF";
+                    media.loading = "lazy";
+                }
+                item.appendChild(media);
+                break;
+            }
+            case "video": {
+                const video = document.createElement("video");
+                video.src = attachment.url;
+                video.controls = true;
+                video.preload = "metadata";
+                video.poster = attachment.previewUrl || "";
+                item.appendChild(video);
+                break;
+            }
+            case "audio":
+            case "voice": {
+                const label = document.createElement("div");
+                label.classList.add("attachment-label");
+                label.textContent =
+                    attachment.type === "voice"
+                        ? `🎤 Voice message${attachment.duration ? ` · ${attachment.duration}` : ""}`
+                        : `🎵 ${attachment.name || "Audio"}${attachment.size ? ` · ${attachment.size}` : ""}`;
+                const audio = document.createElement("audio");
+                audio.src = attachment.url;
+                audio.controls = true;
+                audio.preload = "none";
+                item.appendChild(label);
+                item.appendChild(audio);
+                break;
+            }
+            case "file": {
+                const link = document.createElement("a");
+                link.href = attachment.url;
+                link.target = "_blank";
+                link.rel = "noopener noreferrer";
+                link.textContent = `📎\u00A0${attachment.name || "File"}`;
+                item.appendChild(link);
+                if (attachment.size) {
+                    const size = document.createElement("span");
+                    size.classList.add("attachment-size");
+                    size.textContent = attachment.size;
+                    item.appendChild(size);
+                }
+                break;
+            }
+        }
+
+        return item;
+    }
+
+    private createReactionChip(message: MessageInfo, reaction: MessageReaction): HTMLElement {
+        const chip = document.createElement("button");
+        chip.classList.add("reaction-chip");
+        if (reaction.isMine) {
+            chip.classList.add("mine");
+        }
+        chip.title = reaction.isMine ? `Remove your ${reaction.emoji} reaction` : `React with ${reaction.emoji}`;
+
+        if (reaction.emojiUrl) {
+            const emojiImg = document.createElement("img");
+            emojiImg.classList.add("reaction-emoji");
+            emojiImg.src = reaction.emojiUrl;
+            emojiImg.alt = reaction.emoji;
+            chip.appendChild(emojiImg);
+        } else {
+            const emojiSpan = document.createElement("span");
+            emojiSpan.classList.add("reaction-emoji");
+            emojiSpan.textContent = reaction.emoji;
+            chip.appendChild(emojiSpan);
+        }
+
+        const count = document.createElement("span");
+        count.classList.add("reaction-count");
+        count.textContent = reaction.count.toString();
+        chip.appendChild(count);
+
+        chip.onclick = (e) => {
+            e.stopPropagation(); // Prevent collapsing when clicking a reaction
+
+            // Forward the click to Discord's own reaction button; the mutation observer
+            // re-renders once Discord updates the count
+            const reactionButton = this.findOriginalReactionButton(message, reaction.emoji);
+            if (!reactionButton) {
+                console.error("Reaction button not found for", reaction.emoji, "in", message.originalElement);
+                return;
+            }
+            reactionButton.click();
+        };
+
+        return chip;
+    }
+
+    private findOriginalReactionButton(message: MessageInfo, emoji: string): HTMLElement | null {
+        const reactionsEl = message.originalElement?.querySelector('[class*="reactions_"]');
+        if (!reactionsEl) return null;
+
+        const reactionEl = Array.from(reactionsEl.querySelectorAll('[class*="reaction_"]')).find((el) => {
+            const emojiImg = el.querySelector("img");
+            return (emojiImg?.alt || emojiImg?.getAttribute("data-name")) === emoji;
+        });
+        return reactionEl?.querySelector<HTMLElement>('[role="button"]') || null;
+    }
+
+    // Create an author label with a small avatar, role color, and bot tag, as far as they are known
+    private createAuthorElement(message: MessageInfo, className: string): HTMLElement {
+        const authorEl = document.createElement("span");
+        authorEl.classList.add(className);
+        if (message.authorId) {
+            authorEl.dataset.authorId = message.authorId;
+        }
+        if (message.roleColor) {
+            authorEl.style.color = message.roleColor;
+        }
+
+        if (message.avatarUrl) {
+            const avatar = document.createElement("img");
+            avatar.classList.add("author-avatar");
+            avatar.src = message.avatarUrl;
+            avatar.alt = "";
+            avatar.loading = "lazy";
+            authorEl.appendChild(avatar);
+        }
+
+        authorEl.appendChild(document.createTextNode(message.author));
+
+        if (message.isBot) {
+            const tag = document.createElement("span");
+            tag.classList.add("bot-tag");
+            tag.textContent = "APP";
+            authorEl.appendChild(tag);
+        }
+
+        return authorEl;
+    }
+
+    // Create a placeholder element for a parent message that isn't loaded yet
+    public createGhostMessageElement(
+        message: MessageInfo,
+        onLoadRequested: () => Promise<void>,
+        onToggleCollapsed: () => void,
+        onContinueThread: () => void,
+    ): HTMLElement {
+        const el = document.createElement("div");
+        el.classList.add("threadloaf-ghost");
+        el.dataset.msgId = message.id;
+        el.title = "This message hasn't been loaded yet. Click to load earlier messages until it appears.";
+
+        const previewContainer = document.createElement("div");
+        previewContainer.classList.add("preview-container");
+
+        const contentPreview = document.createElement("span");
+        contentPreview.classList.add("message-content", "preview");
+        contentPreview.textContent = message.content || "Message not loaded";
+
+        const separator = document.createElement("span");
+        separator.classList.add("separator");
+        separator.textContent = " : ";
+
+        const authorSpan = document.createElement("span");
+        authorSpan.classList.add("message-author");
+        authorSpan.textContent = message.author;
+
+        const statusSpan = document.createElement("span");
+        statusSpan.classList.add("ghost-status");
+        statusSpan.textContent = "not loaded";
+
+        previewContainer.appendChild(contentPreview);
+        previewContainer.appendChild(separator);
+        previewContainer.appendChild(authorSpan);
+        previewContainer.appendChild(statusSpan);
+        this.appendReplyCount(previewContainer, message, onContinueThread);
+        this.prependCollapseToggle(previewContainer, message, onToggleCollapsed);
+        el.appendChild(previewContainer);
+
+        el.addEventListener("click", async () => {
+            if (el.classList.contains("loading")) {
+                return;
+            }
+
+            el.classList.add("loading");
+            statusSpan.textContent = "loading…";
+            try {
+                await onLoadRequested();
+            } finally {
+                // The element is usually replaced by a re-render by now, but reset it in case the
+                // parent never showed up (e.g. it was deleted)
+                el.classList.remove("loading");
+                statusSpan.textContent = "not loaded";
+            }
+        });
+
+        return el;
+    }
+
+    // Create a non-expandable row standing in for a deleted message, so its replies keep their place
+    public createTombstoneElement(
+        message: MessageInfo,
+        onToggleCollapsed: () => void,
+        onContinueThread: () => void,
+    ): HTMLElement {
+        const el = document.createElement("div");
+        el.classList.add("threadloaf-tombstone");
+        el.dataset.msgId = message.id;
+        el.dataset.timestamp = message.timestamp.toString();
+
+        const previewContainer = document.createElement("div");
+        previewContainer.classList.add("preview-container");
+
+        const contentPreview = document.createElement("span");
+        contentPreview.classList.add("message-content", "preview");
+        contentPreview.textContent = message.content;
+        previewContainer.appendChild(contentPreview);
+        this.appendReplyCount(previewContainer, message, onContinueThread);
+        this.prependCollapseToggle(previewContainer, message, onToggleCollapsed);
+
+        el.appendChild(previewContainer);
+        return el;
+    }
+
+    // Bring the "new" marker and the count of new replies below up to date in place, as messages are read and
+    // replies arrive, without building the element again
+    public updateUnreadMarkers(el: HTMLElement, message: MessageInfo): void {
+        const previewContainer = el.querySelector<HTMLElement>(":scope > .preview-container");
+        if (!previewContainer) return;
+
+        el.classList.toggle("unread", !!message.isUnread);
+        const newMarker = previewContainer.querySelector(":scope > .new-marker");
+        if (message.isUnread && !newMarker) {
+            previewContainer.insertBefore(
+                this.createNewMarker(),
+                previewContainer.querySelector(":scope > .message-content"),
+            );
+        } else if (!message.isUnread) {
+            newMarker?.remove();
+        }
+
+        const replyCount = previewContainer.querySelector<HTMLElement>(":scope > .reply-count");
+        if (replyCount) {
+            DomMutator.setReplyCountText(replyCount, message);
+        }
+    }
+
+    private createNewMarker(): HTMLElement {
+        const newMarker = document.createElement("span");
+        newMarker.classList.add("new-marker");
+        newMarker.textContent = "new";
+        return newMarker;
+    }
+
+    // Point out replies that arrived since the last visit, so busy branches stand out in a long thread. Collapsed
+    // messages say how many replies they hide instead, and how many of those are new, and messages whose replies
+    // are nested too deeply link to a view of their own for them.
+    private appendReplyCount(previewContainer: HTMLElement, message: MessageInfo, onContinueThread: () => void): void {
+        let replyCount: HTMLElement;
+        if (message.continuesThread) {
+            replyCount = document.createElement("button");
+            replyCount.classList.add("continue-thread");
+            replyCount.title = `${message.replyCount} ${message.replyCount === 1 ? "reply" : "replies"}`;
+            replyCount.onclick = (e) => {
+                e.stopPropagation(); // Prevent expanding the message or loading its placeholder
+                onContinueThread();
+            };
+        } else {
+            replyCount = document.createElement("span");
+            replyCount.classList.add(message.isCollapsed ? "collapsed-replies" : "unread-replies");
+        }
+        replyCount.classList.add("reply-count");
+        DomMutator.setReplyCountText(replyCount, message);
+        previewContainer.appendChild(replyCount);
+    }
+
+    // The count of new replies changes as they're read, so this also updates counts in place
+    private static setReplyCountText(replyCount: HTMLElement, message: MessageInfo): void {
+        const unread = message.unreadReplyCount || 0;
+        replyCount.classList.toggle("has-unread", unread > 0);
+        if (message.continuesThread) {
+            replyCount.textContent = unread ? `Continue this thread → (${unread} new)` : "Continue this thread →";
+        } else if (message.isCollapsed) {
+            const replies = `+${message.replyCount} ${message.replyCount === 1 ? "reply" : "replies"}`;
+            replyCount.textContent = unread ? `(${replies}, ${unread} new)` : `(${replies})`;
+        } else {
+            // Nothing to say until a new reply arrives
+            replyCount.textContent = unread ? `${unread} new below` : "";
+            replyCount.hidden = !unread;
+        }
+    }
+
+    // Let messages with replies hide and show them; the toggle goes in front of the rest of the preview
+    private prependCollapseToggle(
+        previewContainer: HTMLElement,
+        message: MessageInfo,
+        onToggleCollapsed: () => void,
+    ): void {
+        if (!message.replyCount) return;
+
+        const toggle = document.createElement("button");
+        toggle.classList.add("collapse-toggle");
+        toggle.textContent = message.isCollapsed ? "▸" : "▾";
+        toggle.title = message.isCollapsed ? "Show replies" : "Hide replies";
+        toggle.setAttribute("aria-expanded", String(!message.isCollapsed));
+        toggle.onclick = (e) => {
+            e.stopPropagation(); // Prevent expanding the message or loading its placeholder
+            onToggleCollapsed();
+        };
+        previewContainer.prepend(toggle);
+    }
+
+    // Create a slim timeline marker for a system event such as a boost or a pin
+    public createSystemEventElement(message: MessageInfo): HTMLElement {
+        const el = document.createElement("div");
+        el.classList.add("threadloaf-system-event");
+        el.dataset.msgId = message.id;
         el.dataset.timestamp = message.timestamp.toString();
+        if (message.kind) {
+            el.dataset.kind = message.kind.type;
+        }
+
+        const text = document.createElement("span");
+        text.classList.add("system-event-text");
+        text.textContent = this.describeSystemEvent(message);
+        el.appendChild(text);
+
+        const time = document.createElement("span");
+        time.classList.add("system-event-time");
+        time.textContent = new Date(message.timestamp).toLocaleString();
+        el.appendChild(time);
 
         return el;
     }
 
+    private describeSystemEvent(message: MessageInfo): string {
+        const kind = message.kind;
+        switch (kind?.type) {
+            case "boost":
+                return `🚀 ${message.author} boosted the server${kind.level ? ` (${kind.level})` : ""}`;
+            case "titleChange":
+                return `✏️ ${message.author} changed the title to "${kind.newTitle}"`;
+            case "pin":
+                return `📌 ${message.author} pinned a message`;
+            case "join":
+                return `👋 ${message.author} joined`;
+            case "threadCreated":
+                return `🧵 ${message.author} started a thread${kind.threadName ? `: ${kind.threadName}` : ""}`;
+            case "automod":
+                return `🛡️ ${message.author}${kind.title ? `: ${kind.title}` : ""}`;
+            default:
+                return `ℹ️ ${message.content}`;
+        }
+    }
+
     // Inject CSS styles for the thread UI
     public injectStyles(): void {
         const link = document.createElement("link");
         link.rel = "stylesheet";
         link.type = "text/css";
         link.href = chrome.runtime.getURL("styles.css");
-        document.head.appendChild(link);
+        this.lifecycle.mount(link, document.head);
     }
 
     public findAndHideHeader(): void {
@@ -395,6 +994,21 @@ export class DomMutator {
             const hasContainerClass = classes.some((cls) => cls.startsWith("container_"));
             const hasHeaderClass = classes.some((cls) => cls.startsWith("header_"));
             if (hasContainerClass && hasHeaderClass && header instanceof HTMLElement) {
+                if (header !== this.hiddenHeader) {
+                    // Give the header back when Threadloaf is uninstalled, or the previous one when Discord
+                    // replaces it, so only the current header is held on to
+                    this.headerScope?.dispose();
+                    const scope = this.lifecycle.createScope();
+                    this.headerScope = scope;
+
+                    const previousDisplay = header.style.display;
+                    scope.onDispose(() => {
+                        header.style.display = previousDisplay;
+                        this.hiddenHeader = null;
+                        this.headerScope = null;
+                    });
+                    this.hiddenHeader = header;
+                }
                 header.style.display = "none";
                 break;
             }
@@ -1,6 +1,9 @@
 import { DomMutator } from "./DomMutator";
 import { ThreadloafState } from "./ThreadloafState";
 import { DebouncedMutationObserver } from "./DebouncedMutationObserver";
+import { Lifecycle } from "./Lifecycle";
+import { MutationClassifier } from "./MutationClassifier";
+import { ThreadEventBus } from "./ThreadEvents";
 
 /*
  * IMPORTANT: Discord Class/ID Naming Pattern
@@ -27,10 +30,19 @@ import { DebouncedMutationObserver } from "./DebouncedMutationObserver";
 export class DomParser {
     private domMutator: DomMutator;
     private state: ThreadloafState;
-
-    constructor(domMutator: DomMutator, state: ThreadloafState) {
+    private lifecycle: Lifecycle;
+    private mutationClassifier: MutationClassifier;
+
+    constructor(
+        domMutator: DomMutator,
+        state: ThreadloafState,
+        lifecycle: Lifecycle,
+        mutationClassifier: MutationClassifier,
+    ) {
         this.domMutator = domMutator;
         this.state = state;
+        this.lifecycle = lifecycle;
+        this.mutationClassifier = mutationClassifier;
     }
 
     // Locate the top-level app container
@@ -64,56 +76,28 @@ export class DomParser {
         return threadContainer;
     }
 
-    // Attach a MutationObserver to monitor DOM changes
-    public setupMutationObserver(renderThread: () => void): void {
+    // Attach a MutationObserver that publishes changes to the message list as thread events
+    public setupMutationObserver(threadEvents: ThreadEventBus): void {
         this.state.observer = new DebouncedMutationObserver(
             (mutations) => {
-                let shouldRerender = false;
-
-                for (const mutation of mutations) {
-                    // Check for new messages
-                    const hasNewMessages = Array.from(mutation.addedNodes).some(
-                        (node) =>
-                            node instanceof HTMLElement &&
-                            (node.matches('li[id^="chat-messages-"]') ||
-                                node.querySelector('li[id^="chat-messages-"]')),
-                    );
+                const events = this.mutationClassifier.classify(mutations);
+                if (events.length === 0) {
+                    return;
+                }
 
-                    // Check for reactions changes - handle both cozy and compact modes
-                    const hasReactionChanges = (() => {
-                        if (!(mutation.target instanceof HTMLElement)) {
-                            return false;
-                        }
-
-                        // First find the containing message li element
-                        const messageLi = mutation.target.closest('li[id^="chat-messages-"]');
-                        if (!messageLi) {
-                            return false;
-                        }
-
-                        // Check if the mutation affects a reactions container anywhere within this message
-                        return !!messageLi.querySelector('[class*="reactions_"]');
-                    })();
-
-                    // Check for message content edits
-                    const hasMessageEdits =
-                        (mutation.target instanceof HTMLElement &&
-                            mutation.target.matches('[id^="message-content-"]')) ||
-                        (mutation.target instanceof HTMLElement && mutation.target.closest('[id^="message-content-"]'));
-
-                    if (hasNewMessages || hasReactionChanges || hasMessageEdits) {
-                        shouldRerender = true;
-                        break;
-                    }
+                const threadContainer = this.findThreadContainer();
+                if (!threadContainer) {
+                    return;
                 }
 
-                if (shouldRerender) {
-                    const newThreadContainer = this.findThreadContainer();
-                    if (newThreadContainer) {
-                        this.state.threadContainer = newThreadContainer;
-                        renderThread();
-                    }
+                // Discord reuses the message list when switching channels, so watch the channel in the message IDs.
+                // Taking up the new channel and its message list is left to the navigation check.
+                const channelId = this.findChannelId(threadContainer);
+                if (channelId && this.state.channelId && channelId !== this.state.channelId) {
+                    events.unshift({ type: "channelChanged", channelId });
                 }
+
+                threadEvents.publish(events);
             },
             {
                 childList: true,
@@ -123,9 +107,36 @@ export class DomParser {
             },
         );
 
+        this.lifecycle.observe(this.state.observer);
         this.state.observer.observe(this.state.appContainer!);
     }
 
+    // Read the current channel's ID from the message list; list item IDs look like
+    // "chat-messages-<channel id>-<message id>"
+    public findChannelId(threadContainer: HTMLElement | null = this.state.threadContainer): string | null {
+        const firstMessage = threadContainer?.querySelector('li[id^="chat-messages-"]');
+        return firstMessage ? firstMessage.id.split("-").slice(-2)[0] : null;
+    }
+
+    // Read the channel the user navigated to from the URL, "/channels/<guild id or @me>/<channel id>"
+    public findRouteChannelId(): string | null {
+        const match = window.location.pathname.match(/^\/channels\/[^/]+\/(\d+)/);
+        return match ? match[1] : null;
+    }
+
+    // Read the server from the URL; "@me" for direct messages
+    public findRouteGuildId(): string | null {
+        const match = window.location.pathname.match(/^\/channels\/([^/]+)/);
+        return match ? match[1] : null;
+    }
+
+    // The generated class of the scroller around the message list, which our scroll override targets
+    public findScrollerClass(threadContainer: HTMLElement): string | null {
+        const scrollerElement = threadContainer.closest('div[class*="scroller_"]');
+        if (!scrollerElement) return null;
+        return Array.from(scrollerElement.classList).find((className) => className.startsWith("scroller_")) || null;
+    }
+
     public checkIfTopLoaded(): boolean {
         if (!this.state.threadContainer) {
             return false;
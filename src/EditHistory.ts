@@ -0,0 +1,83 @@
+import { MessageInfo, MessageRevision } from "./MessageInfo";
+
+export interface DiffPart {
+    type: "same" | "added" | "removed";
+    text: string;
+}
+
+/**
+ * Remembers every version of each message's content seen during this session.
+ * Discord only shows the latest text of an edited message, so earlier versions
+ * are captured as messages are re-parsed after the observer sees them change.
+ */
+export class EditHistory {
+    private revisionsById = new Map<string, MessageRevision[]>();
+
+    // Record the current content of each message and attach the known revisions to edited ones
+    public record(messages: MessageInfo[], now: number = Date.now()): void {
+        for (const message of messages) {
+            if (message.isGhost || message.isError || message.kind) continue;
+
+            const revisions = this.revisionsById.get(message.id) || [];
+            const latest = revisions[revisions.length - 1];
+            if (!latest || latest.content !== message.content) {
+                revisions.push({ content: message.content, htmlContent: message.htmlContent, seenAt: now });
+                this.revisionsById.set(message.id, revisions);
+            }
+
+            if (revisions.length > 1) {
+                message.isEdited = true;
+            }
+            if (message.isEdited) {
+                message.revisions = [...revisions];
+            }
+        }
+    }
+
+    public getRevisions(messageId: string): MessageRevision[] {
+        return [...(this.revisionsById.get(messageId) || [])];
+    }
+
+    // Word-level diff between two versions of a message's text. Whitespace is normalized, so the
+    // words within a part are joined by single spaces and parts should be shown space-separated.
+    public static diffWords(before: string, after: string): DiffPart[] {
+        const a = before.split(/\s+/).filter((word) => word);
+        const b = after.split(/\s+/).filter((word) => word);
+
+        // Longest common subsequence table, filled from the end so the walk below can go forwards
+        const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+        for (let i = a.length - 1; i >= 0; i--) {
+            for (let j = b.length - 1; j >= 0; j--) {
+                lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+            }
+        }
+
+        const parts: DiffPart[] = [];
+        const push = (type: DiffPart["type"], text: string) => {
+            const last = parts[parts.length - 1];
+            if (last && last.type === type) {
+                last.text += ` ${text}`;
+            } else {
+                parts.push({ type, text });
+            }
+        };
+
+        let i = 0;
+        let j = 0;
+        while (i < a.length && j < b.length) {
+            if (a[i] === b[j]) {
+                push("same", a[i]);
+                i++;
+                j++;
+            } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+                push("removed", a[i++]);
+            } else {
+                push("added", b[j++]);
+            }
+        }
+        a.slice(i).forEach((token) => push("removed", token));
+        b.slice(j).forEach((token) => push("added", token));
+
+        return parts;
+    }
+}
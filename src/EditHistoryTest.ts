@@ -0,0 +1,77 @@
+import { createMessage, deepEqual, Test } from "./test_utils";
+import { EditHistory } from "./EditHistory";
+
+export class EditHistoryTest {
+    async getTests(): Promise<Test[]> {
+        return [
+            {
+                name: "unchanged messages get no revisions",
+                fn: () => {
+                    const history = new EditHistory();
+                    history.record([createMessage("A1", "alice", 0, { content: "hello" })], 1000);
+                    const message = createMessage("A1", "alice", 0, { content: "hello" });
+                    history.record([message], 2000);
+                    deepEqual(message.revisions, undefined);
+                    deepEqual(message.isEdited, undefined);
+                    deepEqual(history.getRevisions("A1").length, 1);
+                },
+            },
+            {
+                name: "content changes between renders are recorded as revisions",
+                fn: () => {
+                    const history = new EditHistory();
+                    history.record([createMessage("A1", "alice", 0, { content: "hello wrld" })], 1000);
+                    history.record([createMessage("A1", "alice", 0, { content: "hello wrld" })], 2000);
+                    const message = createMessage("A1", "alice", 0, { content: "hello world", isEdited: true });
+                    history.record([message], 3000);
+                    deepEqual(message.revisions, [
+                        { content: "hello wrld", htmlContent: "<span>hello wrld</span>", seenAt: 1000 },
+                        { content: "hello world", htmlContent: "<span>hello world</span>", seenAt: 3000 },
+                    ]);
+                },
+            },
+            {
+                name: "content change marks a message edited even without Discord's marker",
+                fn: () => {
+                    const history = new EditHistory();
+                    history.record([createMessage("A1", "alice", 0, { content: "one" })], 1000);
+                    const message = createMessage("A1", "alice", 0, { content: "two" });
+                    history.record([message], 2000);
+                    deepEqual(message.isEdited, true);
+                    deepEqual(message.revisions?.length, 2);
+                },
+            },
+            {
+                name: "message edited before it was seen has only its current revision",
+                fn: () => {
+                    const history = new EditHistory();
+                    const message = createMessage("A1", "alice", 0, { content: "final", isEdited: true });
+                    history.record([message], 1000);
+                    deepEqual(message.revisions, [
+                        { content: "final", htmlContent: "<span>final</span>", seenAt: 1000 },
+                    ]);
+                },
+            },
+            {
+                name: "word diff marks added and removed words",
+                fn: () => {
+                    deepEqual(EditHistory.diffWords("the quick fox", "the slow brown fox"), [
+                        { type: "same", text: "the" },
+                        { type: "removed", text: "quick" },
+                        { type: "added", text: "slow brown" },
+                        { type: "same", text: "fox" },
+                    ]);
+                },
+            },
+            {
+                name: "word diff handles text added at the end",
+                fn: () => {
+                    deepEqual(EditHistory.diffWords("hello", "hello there"), [
+                        { type: "same", text: "hello" },
+                        { type: "added", text: "there" },
+                    ]);
+                },
+            },
+        ];
+    }
+}
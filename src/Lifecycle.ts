@@ -0,0 +1,72 @@
+/**
+ * Owns the cleanup for everything Threadloaf adds to the page: listeners, observers,
+ * timers, and injected elements. Whatever sets one of these up registers how to undo it
+ * here, so that disposing the lifecycle leaves the page as Discord rendered it. Parts of
+ * the UI that are mounted again and again, like the float button, get a scope of their
+ * own that is disposed before each remount.
+ */
+export class Lifecycle {
+    private disposers: (() => void)[] = [];
+    private scopes = new Set<Lifecycle>();
+    private parent: Lifecycle | null = null;
+
+    // Run the given cleanup when this lifecycle is disposed
+    public onDispose(dispose: () => void): void {
+        this.disposers.push(dispose);
+    }
+
+    public listen<E extends Event = Event>(
+        target: EventTarget,
+        type: string,
+        listener: (event: E) => void,
+        options?: boolean | AddEventListenerOptions,
+    ): void {
+        target.addEventListener(type, listener as EventListener, options);
+        this.onDispose(() => target.removeEventListener(type, listener as EventListener, options));
+    }
+
+    // Disconnect the observer on dispose; works for MutationObserver, ResizeObserver, and our wrappers
+    public observe<T extends { disconnect(): void }>(observer: T): T {
+        this.onDispose(() => observer.disconnect());
+        return observer;
+    }
+
+    public setInterval(callback: () => void, ms: number): number {
+        const id = window.setInterval(callback, ms);
+        this.onDispose(() => window.clearInterval(id));
+        return id;
+    }
+
+    // Add an element to the page and remove it again on dispose
+    public mount<T extends Element>(element: T, parent: Element): T {
+        parent.appendChild(element);
+        this.onDispose(() => element.remove());
+        return element;
+    }
+
+    // A nested lifecycle that is disposed along with this one, or earlier on its own
+    public createScope(): Lifecycle {
+        const scope = new Lifecycle();
+        scope.parent = this;
+        this.scopes.add(scope);
+        return scope;
+    }
+
+    // Undo everything in reverse order of setup; the lifecycle can be reused afterwards
+    public dispose(): void {
+        Array.from(this.scopes).forEach((scope) => scope.dispose());
+
+        const disposers = this.disposers.reverse();
+        this.disposers = [];
+        for (const dispose of disposers) {
+            try {
+                dispose();
+            } catch (error) {
+                console.error("Threadloaf: Error during cleanup:", error);
+            }
+        }
+
+        this.parent?.scopes.delete(this);
+        this.parent = null;
+    }
+}
@@ -0,0 +1,62 @@
+import { assertEqual, deepEqual, Test } from "./test_utils";
+import { Lifecycle } from "./Lifecycle";
+
+export class LifecycleTest {
+    async getTests(): Promise<Test[]> {
+        return [
+            {
+                name: "dispose undoes everything in reverse order",
+                fn: () => {
+                    const lifecycle = new Lifecycle();
+                    const calls: string[] = [];
+                    lifecycle.onDispose(() => calls.push("first"));
+                    lifecycle.onDispose(() => calls.push("second"));
+                    lifecycle.dispose();
+                    deepEqual(calls, ["second", "first"]);
+
+                    // Nothing runs twice
+                    lifecycle.dispose();
+                    deepEqual(calls, ["second", "first"]);
+                },
+            },
+            {
+                name: "listeners, observers, and mounted elements are removed",
+                fn: () => {
+                    const lifecycle = new Lifecycle();
+                    const target = document.createElement("div");
+                    const parent = document.createElement("div");
+                    let clicks = 0;
+                    let disconnected = false;
+
+                    lifecycle.listen(target, "click", () => clicks++);
+                    lifecycle.observe({ disconnect: () => (disconnected = true) });
+                    const child = lifecycle.mount(document.createElement("span"), parent);
+
+                    target.dispatchEvent(new Event("click"));
+                    lifecycle.dispose();
+                    target.dispatchEvent(new Event("click"));
+
+                    assertEqual(clicks, 1);
+                    assertEqual(disconnected, true);
+                    assertEqual(child.parentElement, null);
+                },
+            },
+            {
+                name: "scopes are disposed on their own or with their parent",
+                fn: () => {
+                    const lifecycle = new Lifecycle();
+                    const calls: string[] = [];
+                    const first = lifecycle.createScope();
+                    first.onDispose(() => calls.push("first"));
+                    const second = lifecycle.createScope();
+                    second.onDispose(() => calls.push("second"));
+
+                    first.dispose();
+                    deepEqual(calls, ["first"]);
+                    lifecycle.dispose();
+                    deepEqual(calls, ["first", "second"]);
+                },
+            },
+        ];
+    }
+}
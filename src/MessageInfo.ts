@@ -1,6 +1,60 @@
+export interface MessageReaction {
+    emoji: string; // Unicode emoji, or the name of a custom emoji
+    emojiUrl?: string; // Image for the emoji, if Discord renders one
+    count: number;
+    isMine: boolean; // Whether the current user has reacted with this emoji
+}
+
+export type AttachmentType = "image" | "gif" | "video" | "audio" | "voice" | "file" | "sticker";
+
+export interface MessageAttachment {
+    type: AttachmentType;
+    url: string; // Full-size or downloadable URL
+    previewUrl?: string; // Resized image, poster frame, or thumbnail that Discord displays
+    name?: string; // File name, or the sticker's name
+    size?: string; // Size as Discord displays it, e.g. "48.01 KB"
+    duration?: string; // Length of a voice message as Discord displays it, e.g. "0:07"
+}
+
+export interface MessagePoll {
+    question: string;
+    answers: { text: string; votes: number }[]; // Votes are 0 while Discord hides the results
+    totalVotes: number;
+}
+
+export interface ForwardedMessage {
+    content: string; // Text of the original message
+    htmlContent: string;
+    attachments?: MessageAttachment[]; // Attachments carried over from the original message
+    origin?: string; // Where the original was posted as Discord displays it, e.g. "#announcements"
+    url?: string; // Link to the original message
+    timestamp?: number; // When the original was posted, in milliseconds
+}
+
+// What a system message announces. The user who triggered the event is the message's author.
+export type SystemMessageKind =
+    | { type: "boost"; level?: string } // e.g. "Level 3" when the boost unlocked a new level
+    | { type: "titleChange"; newTitle: string }
+    | { type: "pin"; pinnedMessageId?: string }
+    | { type: "join" }
+    | { type: "threadCreated"; threadName?: string }
+    | { type: "automod"; title?: string } // Heading of the AutoMod card, e.g. "Activity Alerts Enabled"
+    | { type: "other" };
+
+// A version of a message's content seen during this session
+export interface MessageRevision {
+    content: string;
+    htmlContent: string;
+    seenAt: number; // When Threadloaf first saw this version, in milliseconds
+}
+
 export interface MessageInfo {
     id: string;
-    author: string;
+    author: string; // Display name
+    authorId?: string; // Discord user ID, when it can be found; more reliable than the display name
+    avatarUrl?: string;
+    roleColor?: string; // Color of the author's name, e.g. "rgb(233, 30, 99)"
+    isBot?: boolean; // Whether the author is a bot or webhook
     timestamp: number; // Unix timestamp in milliseconds
     content: string;
     htmlContent: string;
@@ -9,5 +63,24 @@ export interface MessageInfo {
     children?: MessageInfo[]; // List of child messages
     messageNumber?: number; // Optional message number
     originalElement?: HTMLElement; // Reference to the original Discord message element
+    attachments?: MessageAttachment[]; // Files, media, and stickers attached to the message
+    reactions?: MessageReaction[]; // Reactions shown under the message
+    poll?: MessagePoll; // Poll attached to the message
+    forwarded?: ForwardedMessage; // Snapshot of the message this one forwards
     isError?: boolean; // Whether this is an error message
+    kind?: SystemMessageKind; // Set only for system messages (boosts, pins, title changes, ...)
+    mentions?: string[]; // Display names of users @mentioned in the content, in order of appearance
+    linkedMessageIds?: string[]; // IDs of messages in this channel that the content links to
+    quotedText?: string; // Text of a "> quote" block the content starts with
+    placement?: { ruleId: string; reason: string; isInferred: boolean }; // Which threading rule placed this message, and why
+    isGhost?: boolean; // Whether this is a placeholder for a parent message that isn't loaded yet
+    isDeleted?: boolean; // Whether this is a tombstone for a message deleted while Threadloaf was watching
+    isEdited?: boolean; // Whether Discord marks the message as "(edited)"
+    editedAt?: number; // When the last edit happened, if Discord says
+    revisions?: MessageRevision[]; // Versions seen this session, oldest first; set only for edited messages
+    isUnread?: boolean; // Whether the message arrived after the user's last visit to the channel
+    unreadReplyCount?: number; // How many replies below this message, at any depth, are unread
+    replyCount?: number; // How many replies are below this message, at any depth
+    isCollapsed?: boolean; // Whether the user has hidden the replies below this message
+    continuesThread?: boolean; // Whether the replies below are nested too deeply to show, and open in a view of their own
 }
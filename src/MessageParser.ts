@@ -1,18 +1,49 @@
-import { MessageInfo } from "./MessageInfo";
+import {
+    AttachmentType,
+    ForwardedMessage,
+    MessageAttachment,
+    MessageInfo,
+    MessagePoll,
+    MessageReaction,
+    SystemMessageKind,
+} from "./MessageInfo";
+
+// Who posted a message, beyond the display name
+type AuthorIdentity = Pick<MessageInfo, "authorId" | "avatarUrl" | "roleColor" | "isBot">;
+
+// A parsed message along with what it was parsed from, and the author that follow-ups after it inherit
+interface CachedParse {
+    fingerprint: string;
+    message: MessageInfo;
+    lastAuthor: string | undefined;
+    lastIdentity: AuthorIdentity;
+}
+
+export interface ParseCacheStats {
+    hits: number;
+    misses: number;
+    lastHits: number; // From the most recent parseMessages call
+    lastMisses: number;
+    size: number;
+}
 
 /**
  * Parses Discord message elements into structured MessageInfo objects.
  * Responsible for extracting message content, metadata, and relationships
  * from Discord's DOM structure, handling both regular and system messages.
- * Includes special handling for embeds, reactions, and reply contexts.
+ * Includes special handling for embeds, reactions, polls, forwards, and reply contexts.
  */
 export class MessageParser {
-    // Parse all messages in the thread container
+    private parseCache = new Map<string, CachedParse>();
+    private cacheStats: ParseCacheStats = { hits: 0, misses: 0, lastHits: 0, lastMisses: 0, size: 0 };
+
+    // Parse all messages in the thread container, reusing earlier results for messages that haven't changed
     public parseMessages(threadContainer: HTMLElement | null): MessageInfo[] {
         if (!threadContainer) return [];
         let lastAuthor: string | undefined;
+        let lastIdentity: AuthorIdentity = {};
 
-        const messages = Array.from(threadContainer.querySelectorAll('li[id^="chat-messages-"]')).map((el) => {
+        const parseElement = (el: Element): MessageInfo => {
             try {
                 const id = el.id.split("-").pop() || "";
 
@@ -28,10 +59,17 @@ export class MessageParser {
                     // Clone the container and remove any header div before processing
                     const containerClone = systemContainer.cloneNode(true) as HTMLElement;
                     const headerEl = containerClone.querySelector("h3");
+                    const headerAuthor = headerEl?.querySelector('[class*="username_"]')?.textContent?.trim();
                     if (headerEl) {
                         headerEl.remove();
                     }
 
+                    // The user named in the event (e.g. who boosted) is the author; bots like AutoMod
+                    // get a header of their own instead
+                    const actor = containerClone
+                        .querySelector('[class*="content_"] [class*="username_"]')
+                        ?.textContent?.trim();
+
                     // Replace every <br> with a span containing a space.
                     containerClone.querySelectorAll("br").forEach((br) => {
                         const span = document.createElement("span");
@@ -59,14 +97,15 @@ export class MessageParser {
                     }
 
                     const timestamp = new Date(dateTime).getTime();
+                    const author = headerAuthor || actor || "System";
 
-                    // For system messages, we'll use "System" as the author
                     return {
                         id,
-                        author: "System",
+                        author,
                         timestamp,
                         content: messageContent,
                         htmlContent: containerClone.outerHTML,
+                        kind: this.parseSystemMessageKind(systemContainer, messageContent, author),
                         children: [],
                         originalElement: el as HTMLElement,
                     };
@@ -75,16 +114,18 @@ export class MessageParser {
                 // If not a system message, proceed with regular message parsing
                 const headerEl = contentsEl.querySelector('[class^="header_"]');
                 let author: string | undefined;
+                let identity: AuthorIdentity = {};
                 let timestampEl: Element | null = null;
 
                 if (headerEl) {
                     // Standard message parsing with header
-                    author = headerEl
-                        .querySelector('[id^="message-username-"] > span[class^="username_"]')
-                        ?.textContent?.trim();
+                    const usernameEl = headerEl.querySelector('[id^="message-username-"] > span[class^="username_"]');
+                    author = usernameEl?.textContent?.trim();
+                    identity = this.parseAuthorIdentity(contentsEl, headerEl, usernameEl);
                     timestampEl = headerEl.querySelector("time");
                     if (author) {
                         lastAuthor = author;
+                        lastIdentity = identity;
                     }
                 } else {
                     // Check for system messages first
@@ -122,6 +163,7 @@ export class MessageParser {
                         // Check for follow-up messages in cozy mode
                         timestampEl = contentsEl.querySelector('span[class*="timestamp_"] time');
                         author = lastAuthor;
+                        identity = lastIdentity;
                     }
                 }
 
@@ -140,27 +182,70 @@ export class MessageParser {
 
                 const timestamp = new Date(dateTime).getTime();
 
-                const messageContentEl = contentsEl.querySelector('[id^="message-content-"]');
-                if (!messageContentEl) {
-                    throw new Error("Failed to find message content element");
-                }
-
                 // Find accessories/embeds container
                 const accessoriesId = `message-accessories-${id}`;
                 const accessoriesEl = el.querySelector(`#${accessoriesId}`);
 
-                // Find reactions container
-                const reactionsEl = el.querySelector('[class*="reactions_"]');
+                // Polls and forwarded messages live in the accessories and are parsed into their own fields
+                const pollEl = accessoriesEl?.querySelector('[class*="pollContainer_"]') || null;
+                const forwardEl = accessoriesEl?.querySelector('[class*="forwardContainer_"]') || null;
+                const poll = pollEl ? this.parsePoll(pollEl) : undefined;
+                const forwarded = forwardEl ? this.parseForwarded(forwardEl) : undefined;
 
-                // Debug image detection in both content and accessories
+                // Forwarded messages may have no content of their own, only the snapshot of the original
+                const messageContentEl =
+                    contentsEl.querySelector('[id^="message-content-"]') ||
+                    (forwarded ? document.createElement("div") : null);
+                if (!messageContentEl) {
+                    throw new Error("Failed to find message content element");
+                }
+
+                // Pick out typed attachments (images, videos, files, ...) so they aren't treated as plain links
+                const structuredEls = [pollEl, forwardEl].filter((node): node is Element => node !== null);
+                const { attachments, elements: attachmentEls } = accessoriesEl
+                    ? this.parseAttachments(accessoriesEl, structuredEls)
+                    : { attachments: [], elements: [] };
+                const isInAttachment = (node: Element) =>
+                    [...attachmentEls, ...structuredEls].some((attachmentEl) => attachmentEl.contains(node));
+
+                // Images that aren't attachments, such as embed thumbnails, are still worth pointing out
                 const contentImages = messageContentEl.querySelectorAll("img:not([class*='emoji_'])");
                 const accessoryImages = accessoriesEl
-                    ? accessoriesEl.querySelectorAll("img:not([class*='emoji_']):not([class*='reaction'])")
+                    ? Array.from(
+                          accessoriesEl.querySelectorAll("img:not([class*='emoji_']):not([class*='reaction'])"),
+                      ).filter((img) => !isInAttachment(img))
                     : [];
                 const totalImages = contentImages.length + accessoryImages.length;
+                const hasLinks = accessoriesEl
+                    ? Array.from(accessoriesEl.querySelectorAll("a[href]")).some((a) => !isInAttachment(a))
+                    : false;
+
+                // Indicator appended to the preview for attachments and embeds
+                let mediaIndicator = MessageParser.summarizeAttachments(attachments);
+                if (!mediaIndicator && totalImages > 0) {
+                    mediaIndicator = "🖼️ Image";
+                } else if (!mediaIndicator && hasLinks) {
+                    mediaIndicator = "🔗 Link";
+                }
+                mediaIndicator = [
+                    forwarded ? MessageParser.summarizeForwarded(forwarded) : "",
+                    poll ? MessageParser.summarizePoll(poll) : "",
+                    mediaIndicator,
+                ]
+                    .filter((text) => text)
+                    .join(" ");
+
+                // Discord appends an "(edited)" marker to edited messages; keep it out of the text and
+                // the copy we display, but remember when the edit happened
+                const contentClone = messageContentEl.cloneNode(true) as HTMLElement;
+                const editedEl = contentClone.querySelector('[class*="edited_"]');
+                const editedDateTime = editedEl?.closest("time")?.getAttribute("datetime");
+                if (editedEl) {
+                    (editedEl.closest('[class*="timestamp_"]') || editedEl).remove();
+                }
 
                 // Get text content for preview, handling image-only messages
-                let textContent = messageContentEl.textContent || "";
+                let textContent = contentClone.textContent || "";
 
                 // If there's no text content, check if it's just emojis
                 if (!textContent) {
@@ -173,78 +258,36 @@ export class MessageParser {
                         )
                         .join("");
 
-                    if (emojiContent) {
-                        textContent = emojiContent;
-                    } else if (totalImages > 0) {
-                        textContent = "🖼️ Image";
-                    } else if (accessoriesEl) {
-                        const links = accessoriesEl.querySelectorAll("a[href]");
-                        if (links.length > 0) {
-                            textContent = "🔗 Link";
-                        }
-                    }
+                    textContent = emojiContent || mediaIndicator;
                 } else {
                     // Convert line breaks to spaces for preview
                     textContent = textContent.replace(/\s*[\r\n]+\s*/g, " ").trim();
 
-                    // Add embed indicators to the preview if present
-                    if (totalImages > 0) {
-                        textContent += " 🖼️ Image";
-                    } else if (accessoriesEl) {
-                        const links = accessoriesEl.querySelectorAll("a[href]");
-                        if (links.length > 0) {
-                            textContent += " 🔗 Link";
-                        }
+                    // Add attachment and embed indicators to the preview if present
+                    if (mediaIndicator) {
+                        textContent += ` ${mediaIndicator}`;
                     }
                 }
 
-                // Clone both content and accessories
-                const contentClone = messageContentEl.cloneNode(true) as HTMLElement;
+                // Combine the content with the accessories
                 let fullContent = contentClone;
 
                 if (accessoriesEl) {
-                    // Convert embeds to plain text links (excluding reactions)
+                    // Convert embeds to plain text links (excluding reactions and attachments)
                     const links = Array.from(
                         accessoriesEl.querySelectorAll<HTMLAnchorElement>(
                             'a[href]:not([class*="reaction"]):not([class*="originalLink_"]):not(article *)',
                         ),
-                    ).map((a) => a.href);
-
-                    // Handle image wrappers specially
-                    const imageWrappers = Array.from(
-                        accessoriesEl.querySelectorAll('div[class*="imageWrapper_"]:not(article *)'),
-                    );
-                    const imageLinks = imageWrappers
-                        .map((wrapper) => {
-                            const link = wrapper.querySelector('a[class*="originalLink_"]');
-                            return link instanceof HTMLAnchorElement ? link.href : null;
-                        })
-                        .filter((url): url is string => url !== null);
-
-                    // Handle regular images (not in wrappers)
-                    const standaloneImages = Array.from(
-                        accessoriesEl.querySelectorAll<HTMLImageElement>(
-                            'img[src]:not([data-type="emoji"]):not(.lazyImg_)',
-                        ),
-                    ).map((img) => img.src);
+                    )
+                        .filter((a) => !isInAttachment(a))
+                        .map((a) => a.href);
 
-                    // Create a container for content, links, and reactions
+                    // Create a container for content and links
                     const container = document.createElement("div");
                     container.appendChild(contentClone);
 
-                    // Add reactions if present
-                    if (reactionsEl) {
-                        const reactionsClone = reactionsEl.cloneNode(true) as HTMLElement;
-                        // Remove the "add reaction" button
-                        const addReactionBtn = reactionsClone.querySelector('div[class*="reactionBtn_"]');
-                        if (addReactionBtn) {
-                            addReactionBtn.remove();
-                        }
-                        container.appendChild(reactionsClone);
-                    }
-
                     // Add all unique links
-                    const uniqueLinks = [...new Set([...links, ...imageLinks])];
+                    const uniqueLinks = [...new Set(links)];
                     if (uniqueLinks.length > 0) {
                         const linkList = document.createElement("div");
                         linkList.classList.add("embed-links");
@@ -252,19 +295,14 @@ export class MessageParser {
                         uniqueLinks.forEach((url) => {
                             const link = document.createElement("a");
                             link.href = url;
-                            // Add indicator based on URL pattern
-                            let prefix = "🔗";
-                            if (imageLinks.includes(url)) {
-                                prefix = "🖼️";
-                            }
                             // Truncate long URLs
                             if (url.length > 70) {
                                 const start = url.slice(0, 35);
                                 const end = url.slice(-30);
-                                link.textContent = `${prefix}\u00A0${start}...${end}`;
+                                link.textContent = `🔗\u00A0${start}...${end}`;
                                 link.title = url; // Show full URL on hover
                             } else {
-                                link.textContent = `${prefix}\u00A0${url}`;
+                                link.textContent = `🔗\u00A0${url}`;
                             }
                             link.target = "_blank";
                             link.rel = "noopener noreferrer";
@@ -309,14 +347,52 @@ export class MessageParser {
                     }
                 }
 
+                // Collect user mentions so that "@name ..." messages can be threaded under that user
+                const mentions = Array.from(messageContentEl.querySelectorAll("span.mention"))
+                    .map((mention) => mention.textContent?.trim() || "")
+                    .filter((text) => text.startsWith("@") && text !== "@everyone" && text !== "@here")
+                    .map((text) => text.slice(1));
+
+                // Collect links to other messages in this channel; list item IDs look like
+                // "chat-messages-<channel id>-<message id>"
+                const channelId = el.id.split("-").slice(-2)[0];
+                const linkedMessageIds = Array.from(messageContentEl.querySelectorAll<HTMLAnchorElement>("a[href]"))
+                    .map((a) => a.href.match(/discord(?:app)?\.com\/channels\/[^/]+\/(\d+)\/(\d+)/))
+                    .filter((match): match is RegExpMatchArray => match !== null && match[1] === channelId)
+                    .map((match) => match[2])
+                    .filter((linkedId, index, ids) => linkedId !== id && ids.indexOf(linkedId) === index);
+
+                // Capture a "> quote" block only when the message starts with it
+                let quotedText: string | undefined = undefined;
+                const blockquote = messageContentEl.querySelector("blockquote");
+                if (blockquote) {
+                    const quote = blockquote.textContent?.replace(/\s+/g, " ").trim() || "";
+                    const fullText = messageContentEl.textContent?.replace(/\s+/g, " ").trim() || "";
+                    if (quote && fullText.startsWith(quote)) {
+                        quotedText = quote;
+                    }
+                }
+
+                const reactions = this.parseReactions(el);
+
                 return {
                     id,
                     author,
+                    ...identity,
                     timestamp,
                     content: textContent,
                     htmlContent: fullContent.innerHTML,
                     parentId,
                     parentPreview,
+                    attachments: attachments.length > 0 ? attachments : undefined,
+                    reactions: reactions.length > 0 ? reactions : undefined,
+                    poll,
+                    forwarded,
+                    mentions: mentions.length > 0 ? mentions : undefined,
+                    linkedMessageIds: linkedMessageIds.length > 0 ? linkedMessageIds : undefined,
+                    quotedText,
+                    isEdited: editedEl ? true : undefined,
+                    editedAt: editedDateTime ? new Date(editedDateTime).getTime() : undefined,
                     children: [],
                     originalElement: el as HTMLElement,
                 };
@@ -335,9 +411,363 @@ export class MessageParser {
                     isError: true, // Mark this as an error message
                 };
             }
+        };
+
+        const seenIds = new Set<string>();
+        this.cacheStats.lastHits = 0;
+        this.cacheStats.lastMisses = 0;
+
+        const messages = Array.from(threadContainer.querySelectorAll('li[id^="chat-messages-"]')).map((el) => {
+            const id = el.id.split("-").pop() || "";
+            seenIds.add(id);
+
+            // Cozy follow-ups take their author from the message before, so that's part of the fingerprint too
+            const fingerprint = this.getFingerprint(el, id, lastAuthor, lastIdentity);
+            const cached = this.parseCache.get(id);
+            if (cached && cached.fingerprint === fingerprint) {
+                this.cacheStats.hits++;
+                this.cacheStats.lastHits++;
+                lastAuthor = cached.lastAuthor;
+                lastIdentity = cached.lastIdentity;
+
+                // Threading and edit tracking modify the messages they're given, so hand out a copy
+                return { ...cached.message, children: [], originalElement: el as HTMLElement };
+            }
+
+            this.cacheStats.misses++;
+            this.cacheStats.lastMisses++;
+            const message = parseElement(el);
+            if (message.isError) {
+                this.parseCache.delete(id);
+            } else {
+                this.parseCache.set(id, {
+                    fingerprint,
+                    message: { ...message, children: [] },
+                    lastAuthor,
+                    lastIdentity,
+                });
+            }
+            return message;
         });
 
+        // Forget messages that Discord has unloaded so the cache doesn't grow without bound
+        for (const id of Array.from(this.parseCache.keys())) {
+            if (!seenIds.has(id)) {
+                this.parseCache.delete(id);
+            }
+        }
+        this.cacheStats.size = this.parseCache.size;
+
         // Filter out any null messages and sort by timestamp
         return messages.filter((msg) => msg !== null).sort((a, b) => a.timestamp - b.timestamp);
     }
+
+    // Describe attachments compactly for previews, e.g. "📎 report.pdf" or "🖼️ 3 Images"
+    public static summarizeAttachments(attachments: MessageAttachment[]): string {
+        const labels: { [type in AttachmentType]: { icon: string; singular: string; plural: string } } = {
+            image: { icon: "🖼️", singular: "Image", plural: "Images" },
+            gif: { icon: "🎞️", singular: "GIF", plural: "GIFs" },
+            video: { icon: "🎬", singular: "Video", plural: "Videos" },
+            audio: { icon: "🎵", singular: "Audio", plural: "Audio files" },
+            voice: { icon: "🎤", singular: "Voice message", plural: "Voice messages" },
+            file: { icon: "📎", singular: "File", plural: "Files" },
+            sticker: { icon: "🏷️", singular: "Sticker", plural: "Stickers" },
+        };
+
+        // Group by type, keeping the order in which types first appear
+        const byType = new Map<AttachmentType, MessageAttachment[]>();
+        attachments.forEach((attachment) => {
+            byType.set(attachment.type, [...(byType.get(attachment.type) || []), attachment]);
+        });
+
+        return Array.from(byType.entries())
+            .map(([type, items]) => {
+                const { icon, singular, plural } = labels[type];
+                if (items.length > 1) {
+                    return `${icon} ${items.length} ${plural}`;
+                }
+
+                const [item] = items;
+                if (type === "voice" && item.duration) {
+                    return `${icon} ${singular} (${item.duration})`;
+                }
+                if ((type === "file" || type === "audio" || type === "sticker") && item.name) {
+                    return `${icon} ${item.name}`;
+                }
+                return `${icon} ${singular}`;
+            })
+            .join(" ");
+    }
+
+    // Describe a poll compactly for previews, e.g. "📊 Lunch? (3 options, 12 votes)"
+    public static summarizePoll(poll: MessagePoll): string {
+        const options = `${poll.answers.length} ${poll.answers.length === 1 ? "option" : "options"}`;
+        const votes = `${poll.totalVotes} ${poll.totalVotes === 1 ? "vote" : "votes"}`;
+        return `📊 ${poll.question} (${options}, ${votes})`;
+    }
+
+    // Describe a forwarded message compactly for previews, e.g. "↪️ Deploy is done 🖼️ Image"
+    public static summarizeForwarded(forwarded: ForwardedMessage): string {
+        const parts = [forwarded.content, MessageParser.summarizeAttachments(forwarded.attachments || [])];
+        return ["↪️", ...parts.filter((text) => text)].join(" ");
+    }
+
+    public getCacheStats(): ParseCacheStats {
+        return { ...this.cacheStats };
+    }
+
+    // Cheap hash of everything a message is parsed from: its content and header, its accessories
+    // (embeds, attachments, polls, and reactions), and the author it would inherit as a follow-up
+    private getFingerprint(
+        el: Element,
+        id: string,
+        lastAuthor: string | undefined,
+        lastIdentity: AuthorIdentity,
+    ): string {
+        const contentsEl = el.querySelector('[class^="contents_"]');
+        const accessoriesEl = el.querySelector(`#message-accessories-${id}`);
+        const source = [
+            lastAuthor || "",
+            JSON.stringify(lastIdentity),
+            contentsEl?.innerHTML || "",
+            accessoriesEl?.innerHTML || "",
+        ].join("\u0000");
+
+        // 32-bit FNV-1a, plus the length to make collisions even less likely
+        let hash = 0x811c9dc5;
+        for (let i = 0; i < source.length; i++) {
+            hash ^= source.charCodeAt(i);
+            hash = Math.imul(hash, 0x01000193);
+        }
+        return `${(hash >>> 0).toString(16)}:${source.length}`;
+    }
+
+    // Read the author's user ID, avatar, role color, and bot tag from a message header. The ID comes
+    // from the avatar URL ("/avatars/<id>/..." or "/users/<id>/avatars/..."), since users with the
+    // default avatar have no ID in the markup otherwise.
+    private parseAuthorIdentity(contentsEl: Element, headerEl: Element, usernameEl: Element | null): AuthorIdentity {
+        const avatarUrl = contentsEl.querySelector<HTMLImageElement>('img[class*="avatar_"]')?.src || undefined;
+        const authorId =
+            usernameEl?.getAttribute("data-user-id") ||
+            avatarUrl?.match(/\/(?:avatars|users)\/(\d+)\//)?.[1] ||
+            undefined;
+        const roleColor = (usernameEl instanceof HTMLElement && usernameEl.style.color) || undefined;
+
+        // Bots and webhooks get an "APP" (formerly "BOT") tag; the same tag element is used for "OP"
+        const tagText = headerEl.querySelector('[class*="botText_"]')?.textContent?.trim().toUpperCase();
+        const isBot = tagText === "APP" || tagText === "BOT" ? true : undefined;
+
+        return { authorId, avatarUrl, roleColor, isBot };
+    }
+
+    // Work out what a system message announces from its wording and markup
+    private parseSystemMessageKind(containerEl: Element, text: string, author: string): SystemMessageKind {
+        const strongText = containerEl.querySelector("strong")?.textContent?.trim() || undefined;
+
+        if (author === "AutoMod") {
+            const title = containerEl.querySelector('[class*="cardHeader_"]')?.textContent?.trim() || undefined;
+            return { type: "automod", title };
+        }
+
+        const isTitleChange =
+            Array.from(containerEl.classList).some((cls) => cls.startsWith("channelNameChange_")) ||
+            /changed the (post|channel|thread) (title|name)/i.test(text);
+        if (isTitleChange) {
+            return { type: "titleChange", newTitle: strongText || "" };
+        }
+
+        if (/boosted the server/i.test(text)) {
+            return { type: "boost", level: strongText?.match(/Level \d+/i)?.[0] };
+        }
+
+        if (/pinned a message/i.test(text)) {
+            const pinnedMessageId = Array.from(containerEl.querySelectorAll<HTMLAnchorElement>("a[href]"))
+                .map((a) => a.href.match(/discord(?:app)?\.com\/channels\/[^/]+\/\d+\/(\d+)/)?.[1])
+                .find((messageId) => messageId);
+            return { type: "pin", pinnedMessageId };
+        }
+
+        if (/started a thread/i.test(text)) {
+            return { type: "threadCreated", threadName: strongText };
+        }
+
+        // Discord picks from many welcome messages; these cover the common wordings
+        if (/\b(joined|welcome|just (slid|showed up|landed|arrived)|hopped into|is here)\b/i.test(text)) {
+            return { type: "join" };
+        }
+
+        return { type: "other" };
+    }
+
+    // Read a poll's question, answers, and vote counts
+    private parsePoll(pollEl: Element): MessagePoll {
+        const answers = Array.from(pollEl.querySelectorAll('[class*="answer_"]')).map((answerEl) => ({
+            text: answerEl.querySelector('[class*="answerText_"]')?.textContent?.trim() || "",
+            votes: parseInt(answerEl.querySelector('[class*="voteCount_"]')?.textContent || "", 10) || 0,
+        }));
+
+        // The total is shown in the bottom bar, e.g. "12 votes"; fall back to adding up the answers
+        const bottomBarText = pollEl.querySelector('[class*="bottomBar_"]')?.textContent || "";
+        const totalMatch = bottomBarText.match(/([\d,]+)\s+votes?/);
+        const totalVotes = totalMatch
+            ? parseInt(totalMatch[1].replace(/,/g, ""), 10)
+            : answers.reduce((sum, answer) => sum + answer.votes, 0);
+
+        return {
+            question: pollEl.querySelector('[class*="question_"]')?.textContent?.trim() || "Poll",
+            answers,
+            totalVotes,
+        };
+    }
+
+    // Read the snapshot of the original message from a forwarded message
+    private parseForwarded(forwardEl: Element): ForwardedMessage {
+        const contentEl = forwardEl.querySelector('[class*="messageContent_"]');
+        const { attachments } = this.parseAttachments(forwardEl);
+        const originLink = forwardEl.querySelector<HTMLAnchorElement>('a[class*="originLink_"]');
+        const dateTime = forwardEl.querySelector('[class*="footer_"] time')?.getAttribute("datetime");
+
+        return {
+            content: contentEl?.textContent?.replace(/\s+/g, " ").trim() || "",
+            htmlContent: contentEl?.innerHTML || "",
+            attachments: attachments.length > 0 ? attachments : undefined,
+            origin: originLink?.querySelector('[class*="channelName_"]')?.textContent?.trim() || undefined,
+            url: originLink?.href || undefined,
+            timestamp: dateTime ? new Date(dateTime).getTime() : undefined,
+        };
+    }
+
+    // Find attachments in a message's accessories, in display order, skipping anything inside the
+    // excluded elements. Also returns the element that holds each attachment so callers can skip
+    // those elements when looking for links.
+    private parseAttachments(
+        accessoriesEl: Element,
+        excludedEls: Element[] = [],
+    ): { attachments: MessageAttachment[]; elements: Element[] } {
+        const attachments: MessageAttachment[] = [];
+        const elements: Element[] = [];
+
+        const add = (container: Element, attachment: MessageAttachment) => {
+            if (elements.some((el) => el.contains(container))) return;
+            elements.push(container);
+            attachments.push(attachment);
+        };
+        const textOf = (root: Element, selector: string) =>
+            root.querySelector(selector)?.textContent?.trim() || undefined;
+
+        const candidates = accessoriesEl.querySelectorAll(
+            '[data-type="sticker"], audio, video, div[class*="imageWrapper_"]:not(article *), div[class*="attachment_"]',
+        );
+        candidates.forEach((el) => {
+            if (excludedEls.some((excludedEl) => excludedEl.contains(el))) return;
+
+            if (el.getAttribute("data-type") === "sticker") {
+                const container = el.closest('[class*="clickableSticker_"]') || el;
+                add(container, {
+                    type: "sticker",
+                    url: el instanceof HTMLImageElement ? el.src : "",
+                    name: (el instanceof HTMLImageElement ? el.alt : "") || el.getAttribute("aria-label") || undefined,
+                });
+            } else if (el instanceof HTMLAudioElement) {
+                const container = el.parentElement || el;
+                const isVoiceMessage =
+                    el.src.includes("voice-message") || container.querySelector('[class*="waveform_"]') !== null;
+                if (isVoiceMessage) {
+                    add(container, {
+                        type: "voice",
+                        url: el.src,
+                        duration: textOf(container, '[class*="durationTimeDisplay_"]'),
+                    });
+                } else {
+                    const audioContainer = el.closest('[class*="wrapperAudio_"]') || container;
+                    add(audioContainer, {
+                        type: "audio",
+                        url: el.src,
+                        name: textOf(audioContainer, '[class*="metadataName_"]') || this.fileNameFromUrl(el.src),
+                        size: textOf(audioContainer, '[class*="metadataSize_"]'),
+                    });
+                }
+            } else if (el instanceof HTMLVideoElement) {
+                // Looping videos are how Discord shows GIFs from Tenor, Giphy, etc.
+                const wrapper = el.closest('[class*="imageWrapper_"]');
+                if (el.loop) {
+                    add(wrapper || el.parentElement || el, {
+                        type: "gif",
+                        url: el.src,
+                        previewUrl: el.poster || undefined,
+                    });
+                } else {
+                    const container = el.closest('[class*="mosaicItem_"]') || el.parentElement || el;
+                    add(container, {
+                        type: "video",
+                        url: el.src,
+                        previewUrl: el.poster || undefined,
+                        name: textOf(container, '[class*="metadataName_"]') || this.fileNameFromUrl(el.src),
+                        size: textOf(container, '[class*="metadataSize_"]'),
+                    });
+                }
+            } else if (Array.from(el.classList).some((cls) => cls.startsWith("imageWrapper_"))) {
+                // Videos inside image wrappers are handled when the video itself is visited
+                if (el.querySelector("video")) return;
+
+                const link = el.querySelector<HTMLAnchorElement>('a[class*="originalLink_"]');
+                const img = el.querySelector("img");
+                const url = link?.href || img?.src;
+                if (!url) return;
+
+                const name = this.fileNameFromUrl(url);
+                add(el, {
+                    type: name?.toLowerCase().endsWith(".gif") ? "gif" : "image",
+                    url,
+                    previewUrl: img?.src || undefined,
+                    name,
+                });
+            } else {
+                const link = el.querySelector<HTMLAnchorElement>('a[class*="fileNameLink_"]');
+                if (!link) return;
+
+                add(el, {
+                    type: "file",
+                    url: link.href,
+                    name: link.textContent?.trim() || this.fileNameFromUrl(link.href) || "file",
+                    size: textOf(el, '[class*="metadata_"]'),
+                });
+            }
+        });
+
+        return { attachments, elements };
+    }
+
+    private fileNameFromUrl(url: string): string | undefined {
+        try {
+            const name = new URL(url).pathname.split("/").pop();
+            return name ? decodeURIComponent(name) : undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    // Read the reaction buttons under a message
+    private parseReactions(messageEl: Element): MessageReaction[] {
+        const reactionsEl = messageEl.querySelector('[class*="reactions_"]');
+        if (!reactionsEl) return [];
+
+        return Array.from(reactionsEl.querySelectorAll('[class*="reaction_"]'))
+            .map((reactionEl) => {
+                const emojiImg = reactionEl.querySelector("img");
+                const emoji = emojiImg?.alt || emojiImg?.getAttribute("data-name") || "";
+                const countText = reactionEl.querySelector('[class*="reactionCount_"]')?.textContent || "";
+                const isMine =
+                    Array.from(reactionEl.classList).some((cls) => cls.startsWith("reactionMe_")) ||
+                    reactionEl.querySelector('[aria-pressed="true"]') !== null;
+
+                return {
+                    emoji,
+                    emojiUrl: emojiImg?.src || undefined,
+                    count: parseInt(countText, 10) || 0,
+                    isMine,
+                };
+            })
+            .filter((reaction) => reaction.emoji !== "");
+    }
 }
@@ -1,4 +1,4 @@
-import { deepEqual, Test, IGNORE } from "./test_utils";
+import { assertEqual, deepEqual, Test, IGNORE } from "./test_utils";
 import { MessageInfo } from "./MessageInfo";
 import { MessageParser } from "./MessageParser";
 
@@ -27,6 +27,10 @@ export class MessageParserTest {
                         {
                             id: "1323564429408997426",
                             author: "electroly",
+                            authorId: "459533810153947156",
+                            avatarUrl:
+                                "https://cdn.discordapp.com/avatars/459533810153947156/1397484517a7efc69a0a5600571b5e9e.webp?size=80",
+                            roleColor: "rgb(233, 30, 99)",
                             timestamp: 1735632750609,
                             content: "asdf",
                             htmlContent:
@@ -44,6 +48,10 @@ export class MessageParserTest {
                         {
                             id: "1323564429408997426",
                             author: "electroly",
+                            authorId: "459533810153947156",
+                            avatarUrl:
+                                "https://cdn.discordapp.com/avatars/459533810153947156/1397484517a7efc69a0a5600571b5e9e.webp?size=32",
+                            roleColor: "rgb(233, 30, 99)",
                             timestamp: 1735632750609,
                             content: "asdf",
                             htmlContent:
@@ -61,10 +69,34 @@ export class MessageParserTest {
                         {
                             id: "1323564429408997426",
                             author: "electroly",
+                            authorId: "459533810153947156",
+                            avatarUrl:
+                                "https://cdn.discordapp.com/avatars/459533810153947156/1397484517a7efc69a0a5600571b5e9e.webp?size=80",
+                            roleColor: "rgb(233, 30, 99)",
                             timestamp: 1735632750609,
                             content: "asdf",
                             htmlContent:
-                                '<div id="message-content-1323564429408997426" class="markup_f8f345 messageContent_f9f2ca"><span>asdf</span></div><div class="reactions_ec6b19 largeReactions_ec6b19" role="group" id="message-reactions-1323564429408997426"><div></div><div><div class="reaction_ec6b19 reactionMe_ec6b19" style="opacity: 1;"><div class="reactionInner_ec6b19" aria-expanded="false" aria-disabled="false" aria-label="sparkling heart, 1 reaction, press to remove your reaction" aria-pressed="true" role="button" tabindex="0"><div class=""></div><div><img class="emoji reactionLarge" data-type="emoji" data-name="💖" src="https://discord.com/assets/257ec62e14d4c1c89808.svg" alt="💖" draggable="false"></div><div class="reactionCount_ec6b19" style="min-width: 9px;">1</div></div></div></div><div><div class="reaction_ec6b19 reactionMe_ec6b19" style="opacity: 1;"><div class="reactionInner_ec6b19" aria-expanded="false" aria-disabled="false" aria-label="point up 2, 1 reaction, press to remove your reaction" aria-pressed="true" role="button" tabindex="0"><div class=""></div><div><img class="emoji reactionLarge" data-type="emoji" data-name="👆" src="https://discord.com/assets/db1a06e4b01639c96019.svg" alt="👆" draggable="false"></div><div class="reactionCount_ec6b19" style="min-width: 9px;">1</div></div></div></div><div><div class="reaction_ec6b19 reactionMe_ec6b19" style="opacity: 1;"><div class="reactionInner_ec6b19" aria-expanded="false" aria-disabled="false" aria-label="saluting face, 1 reaction, press to remove your reaction" aria-pressed="true" role="button" tabindex="0"><div class=""></div><div><img class="emoji reactionLarge" data-type="emoji" data-name="🫡" src="https://discord.com/assets/6aae4f996e21c1d6fd73.svg" alt="🫡" draggable="false"></div><div class="reactionCount_ec6b19" style="min-width: 9px;">1</div></div></div></div><div aria-label="Add Reaction"></div></div>',
+                                '<div id="message-content-1323564429408997426" class="markup_f8f345 messageContent_f9f2ca"><span>asdf</span></div>',
+                            reactions: [
+                                {
+                                    emoji: "💖",
+                                    emojiUrl: "https://discord.com/assets/257ec62e14d4c1c89808.svg",
+                                    count: 1,
+                                    isMine: true,
+                                },
+                                {
+                                    emoji: "👆",
+                                    emojiUrl: "https://discord.com/assets/db1a06e4b01639c96019.svg",
+                                    count: 1,
+                                    isMine: true,
+                                },
+                                {
+                                    emoji: "🫡",
+                                    emojiUrl: "https://discord.com/assets/6aae4f996e21c1d6fd73.svg",
+                                    count: 1,
+                                    isMine: true,
+                                },
+                            ],
                             children: [],
                             originalElement: IGNORE,
                         },
@@ -78,10 +110,34 @@ export class MessageParserTest {
                         {
                             id: "1323564429408997426",
                             author: "electroly",
+                            authorId: "459533810153947156",
+                            avatarUrl:
+                                "https://cdn.discordapp.com/avatars/459533810153947156/1397484517a7efc69a0a5600571b5e9e.webp?size=32",
+                            roleColor: "rgb(233, 30, 99)",
                             timestamp: 1735632750609,
                             content: "asdf",
                             htmlContent:
-                                '<div id="message-content-1323564429408997426" class="markup_f8f345 messageContent_f9f2ca"><span>asdf</span></div><div class="reactions_ec6b19 largeReactions_ec6b19" role="group" id="message-reactions-1323564429408997426"><div></div><div><div class="reaction_ec6b19 reactionMe_ec6b19" style="opacity: 1;"><div class="reactionInner_ec6b19" aria-expanded="false" aria-disabled="false" aria-label="sparkling heart, 1 reaction, press to remove your reaction" aria-pressed="true" role="button" tabindex="0"><div class=""></div><div><img class="emoji reactionLarge" data-type="emoji" data-name="💖" src="https://discord.com/assets/257ec62e14d4c1c89808.svg" alt="💖" draggable="false"></div><div class="reactionCount_ec6b19" style="min-width: 9px;">1</div></div></div></div><div><div class="reaction_ec6b19 reactionMe_ec6b19" style="opacity: 1;"><div class="reactionInner_ec6b19" aria-expanded="false" aria-disabled="false" aria-label="point up 2, 1 reaction, press to remove your reaction" aria-pressed="true" role="button" tabindex="0"><div class=""></div><div><img class="emoji reactionLarge" data-type="emoji" data-name="👆" src="https://discord.com/assets/db1a06e4b01639c96019.svg" alt="👆" draggable="false"></div><div class="reactionCount_ec6b19" style="min-width: 9px;">1</div></div></div></div><div><div class="reaction_ec6b19 reactionMe_ec6b19" style="opacity: 1;"><div class="reactionInner_ec6b19" aria-expanded="false" aria-disabled="false" aria-label="saluting face, 1 reaction, press to remove your reaction" aria-pressed="true" role="button" tabindex="0"><div class=""></div><div><img class="emoji reactionLarge" data-type="emoji" data-name="🫡" src="https://discord.com/assets/6aae4f996e21c1d6fd73.svg" alt="🫡" draggable="false"></div><div class="reactionCount_ec6b19" style="min-width: 9px;">1</div></div></div></div><div aria-label="Add Reaction"></div></div>',
+                                '<div id="message-content-1323564429408997426" class="markup_f8f345 messageContent_f9f2ca"><span>asdf</span></div>',
+                            reactions: [
+                                {
+                                    emoji: "💖",
+                                    emojiUrl: "https://discord.com/assets/257ec62e14d4c1c89808.svg",
+                                    count: 1,
+                                    isMine: true,
+                                },
+                                {
+                                    emoji: "👆",
+                                    emojiUrl: "https://discord.com/assets/db1a06e4b01639c96019.svg",
+                                    count: 1,
+                                    isMine: true,
+                                },
+                                {
+                                    emoji: "🫡",
+                                    emojiUrl: "https://discord.com/assets/6aae4f996e21c1d6fd73.svg",
+                                    count: 1,
+                                    isMine: true,
+                                },
+                            ],
                             children: [],
                             originalElement: IGNORE,
                         },
@@ -95,6 +151,10 @@ export class MessageParserTest {
                         {
                             id: "1323564429408997426",
                             author: "electroly",
+                            authorId: "459533810153947156",
+                            avatarUrl:
+                                "https://cdn.discordapp.com/avatars/459533810153947156/1397484517a7efc69a0a5600571b5e9e.webp?size=80",
+                            roleColor: "rgb(233, 30, 99)",
                             timestamp: 1735632750609,
                             content: "asdf",
                             htmlContent:
@@ -105,6 +165,10 @@ export class MessageParserTest {
                         {
                             id: "1323577271814197381",
                             author: "electroly",
+                            authorId: "459533810153947156",
+                            avatarUrl:
+                                "https://cdn.discordapp.com/avatars/459533810153947156/1397484517a7efc69a0a5600571b5e9e.webp?size=80",
+                            roleColor: "rgb(233, 30, 99)",
                             timestamp: 1735635812477,
                             content: "foobar",
                             htmlContent:
@@ -127,6 +191,10 @@ export class MessageParserTest {
                         {
                             id: "1323564429408997426",
                             author: "electroly",
+                            authorId: "459533810153947156",
+                            avatarUrl:
+                                "https://cdn.discordapp.com/avatars/459533810153947156/1397484517a7efc69a0a5600571b5e9e.webp?size=32",
+                            roleColor: "rgb(233, 30, 99)",
                             timestamp: 1735632750609,
                             content: "asdf",
                             htmlContent:
@@ -137,6 +205,10 @@ export class MessageParserTest {
                         {
                             id: "1323577271814197381",
                             author: "electroly",
+                            authorId: "459533810153947156",
+                            avatarUrl:
+                                "https://cdn.discordapp.com/avatars/459533810153947156/1397484517a7efc69a0a5600571b5e9e.webp?size=32",
+                            roleColor: "rgb(233, 30, 99)",
                             timestamp: 1735635812477,
                             content: "foobar",
                             htmlContent:
@@ -159,6 +231,10 @@ export class MessageParserTest {
                         {
                             id: "1323584268588285952",
                             author: "electroly",
+                            authorId: "459533810153947156",
+                            avatarUrl:
+                                "https://cdn.discordapp.com/avatars/459533810153947156/1397484517a7efc69a0a5600571b5e9e.webp?size=80",
+                            roleColor: "rgb(233, 30, 99)",
                             timestamp: 1735637480638,
                             content: "test message",
                             htmlContent:
@@ -176,6 +252,10 @@ export class MessageParserTest {
                         {
                             id: "1323584268588285952",
                             author: "electroly",
+                            authorId: "459533810153947156",
+                            avatarUrl:
+                                "https://cdn.discordapp.com/avatars/459533810153947156/1397484517a7efc69a0a5600571b5e9e.webp?size=32",
+                            roleColor: "rgb(233, 30, 99)",
                             timestamp: 1735637480638,
                             content: "test message",
                             htmlContent:
@@ -192,11 +272,12 @@ export class MessageParserTest {
                     deepEqual(this.parser.parseMessages(await this.loadTestFile("cozy-change-post-title.html")), [
                         {
                             id: "1323585208091676832",
-                            author: "System",
+                            author: "electroly",
                             timestamp: 1735637704633,
                             content: "electroly changed the post title: test thread! — Today at 9:35 AM",
                             htmlContent:
                                 '<div class="channelNameChange_ce613b container_d76df7 cozy_d76df7"><div class="iconContainer_d76df7"><div data-accessibility="desaturate" class="icon_d76df7 iconSize_d76df7" style="background-image: url(&quot;/assets/6a41d3db4f37899d1306.svg&quot;);"><span> </span></div><span> </span></div><div class="content_d76df7"><a class="anchor_af404b anchorUnderlineOnHover_af404b" aria-expanded="false" role="button" tabindex="0" style="color: rgb(233, 30, 99);"><span class="username_de3235 desaturateUserColors_c7819f" style="color: rgb(233, 30, 99);">electroly</span></a> changed the post title: <strong>test thread!</strong><span class="timestamp_f9f2ca timestampInline_f9f2ca"><time aria-label="Today at 9:35 AM" datetime="2024-12-31T09:35:04.633Z"><i class="separator_f9f2ca" aria-hidden="true"> — </i>Today at 9:35 AM</time></span><span> </span></div></div>',
+                            kind: { type: "titleChange", newTitle: "test thread!" },
                             children: [],
                             originalElement: IGNORE,
                         },
@@ -209,11 +290,12 @@ export class MessageParserTest {
                     deepEqual(this.parser.parseMessages(await this.loadTestFile("compact-change-post-title.html")), [
                         {
                             id: "1323585208091676832",
-                            author: "System",
+                            author: "electroly",
                             timestamp: 1735637704633,
                             content: "electroly changed the post title: test thread! — Today at 9:35 AM",
                             htmlContent:
                                 '<div class="channelNameChange_ce613b container_d76df7 compact_d76df7"><div class="iconContainer_d76df7"><div data-accessibility="desaturate" class="icon_d76df7 iconSize_d76df7" style="background-image: url(&quot;/assets/6a41d3db4f37899d1306.svg&quot;);"><span> </span></div><span> </span></div><div class="content_d76df7"><a class="anchor_af404b anchorUnderlineOnHover_af404b" aria-expanded="false" role="button" tabindex="0" style="color: rgb(233, 30, 99);"><span class="username_de3235 desaturateUserColors_c7819f" style="color: rgb(233, 30, 99);">electroly</span></a> changed the post title: <strong>test thread!</strong><span class="timestamp_f9f2ca timestampInline_f9f2ca"><time aria-label="Today at 9:35 AM" datetime="2024-12-31T09:35:04.633Z"><i class="separator_f9f2ca" aria-hidden="true"> — </i>Today at 9:35 AM</time></span><span> </span></div></div>',
+                            kind: { type: "titleChange", newTitle: "test thread!" },
                             children: [],
                             originalElement: IGNORE,
                         },
@@ -226,12 +308,13 @@ export class MessageParserTest {
                     deepEqual(this.parser.parseMessages(await this.loadTestFile("cozy-server-boost.html")), [
                         {
                             id: "1323590100294303754",
-                            author: "System",
+                            author: "electroly",
                             timestamp: 1735638871025,
                             content:
                                 "electroly just boosted the server! Cool Server has achieved Level 3!  — Today at 9:54 AM",
                             htmlContent:
                                 '<div class="container_d76df7 cozy_d76df7"><div class="iconContainer_d76df7"><div class="iconWrapper_f1b373" role="button" tabindex="0"><svg class="icon_f1b373" aria-hidden="true" role="img" width="24" height="24" viewBox="0 0 8 12"><path d="M4 0L0 4V8L4 12L8 8V4L4 0ZM7 7.59L4 10.59L1 7.59V4.41L4 1.41L7 4.41V7.59Z" fill="currentColor"></path><path d="M2 4.83V7.17L4 9.17L6 7.17V4.83L4 2.83L2 4.83Z" fill="currentColor"></path></svg><span> </span></div><span> </span></div><div class="content_d76df7"><div class="message_f1b373"><a class="anchor_af404b anchorUnderlineOnHover_af404b" aria-expanded="false" role="button" tabindex="0"><span class="username_de3235 desaturateUserColors_c7819f">electroly</span></a> just boosted the server! Cool Server has achieved <strong>Level 3!</strong><span> </span></div><span class="timestamp_f9f2ca timestampInline_f9f2ca"><time aria-label="Today at 9:54 AM" datetime="2024-12-31T09:54:31.025Z"><i class="separator_f9f2ca" aria-hidden="true"> — </i>Today at 9:54 AM</time></span><span> </span></div></div>',
+                            kind: { type: "boost", level: "Level 3" },
                             children: [],
                             originalElement: IGNORE,
                         },
@@ -244,12 +327,13 @@ export class MessageParserTest {
                     deepEqual(this.parser.parseMessages(await this.loadTestFile("compact-server-boost.html")), [
                         {
                             id: "1323590100294303754",
-                            author: "System",
+                            author: "electroly",
                             timestamp: 1735638871025,
                             content:
                                 "electroly just boosted the server! Cool Server has achieved Level 3!  — Today at 9:54 AM",
                             htmlContent:
                                 '<div class="container_d76df7 compact_d76df7"><div class="iconContainer_d76df7"><div class="iconWrapper_f1b373" role="button" tabindex="0"><svg class="icon_f1b373" aria-hidden="true" role="img" width="24" height="24" viewBox="0 0 8 12"><path d="M4 0L0 4V8L4 12L8 8V4L4 0ZM7 7.59L4 10.59L1 7.59V4.41L4 1.41L7 4.41V7.59Z" fill="currentColor"></path><path d="M2 4.83V7.17L4 9.17L6 7.17V4.83L4 2.83L2 4.83Z" fill="currentColor"></path></svg><span> </span></div><span> </span></div><div class="content_d76df7"><div class="message_f1b373"><a class="anchor_af404b anchorUnderlineOnHover_af404b" aria-expanded="false" role="button" tabindex="0"><span class="username_de3235 desaturateUserColors_c7819f">electroly</span></a> just boosted the server! Cool Server has achieved <strong>Level 3!</strong><span> </span></div><span class="timestamp_f9f2ca timestampInline_f9f2ca"><time aria-label="Today at 9:54 AM" datetime="2024-12-31T09:54:31.025Z"><i class="separator_f9f2ca" aria-hidden="true"> — </i>Today at 9:54 AM</time></span><span> </span></div></div>',
+                            kind: { type: "boost", level: "Level 3" },
                             children: [],
                             originalElement: IGNORE,
                         },
@@ -262,12 +346,13 @@ export class MessageParserTest {
                     deepEqual(this.parser.parseMessages(await this.loadTestFile("cozy-automod.html")), [
                         {
                             id: "1322967103338447031",
-                            author: "System",
+                            author: "AutoMod",
                             timestamp: 1735490336976,
                             content:
                                 "Activity Alerts Enabled  Enabled by     @boarder2    2 days ago    New and improved Activity Alerts are monitoring your server safety. AutoMod will send a message here if there is any DM or join activity that exceed what is normal for your server.",
                             htmlContent:
                                 '<div class="mainContainer_df2817 container_d76df7 cozy_d76df7"><div class="iconContainer_d76df7 iconContainer_df2817"><div class="avatarContainer_bc2461"><div class="wrapper_c51b4e" role="img" aria-label="AutoMod" aria-hidden="false" style="width: 40px; height: 40px;"><svg width="40" height="40" viewBox="0 0 40 40" class="mask_c51b4e svg_c51b4e" aria-hidden="true"><foreignObject x="0" y="0" width="40" height="40" mask="url(#svg-mask-avatar-default)"><div class="avatarStack_c51b4e"><img src="/assets/c11c66353ba9b3973cdd.png" alt=" " class="avatar_c51b4e" aria-hidden="true"><span> </span></div></foreignObject></svg><span> </span></div><span> </span></div><span> </span></div><div class="content_d76df7"><div class="content_df2817"><div class="flexLineBreak_df2817"><span> </span></div><div class="embedCard_df2817"><div class="cardContent_df2817"><div class="cardHeaderContianer_df2817"><div class="cardHeader_df2817"><svg aria-hidden="true" role="img" xmlns="http://www.w3.org/2000/svg" width="16" height="16" fill="none" viewBox="0 0 24 24"><path d="M10.56 1.1c-.46.05-.7.53-.64.98.18 1.16-.19 2.2-.98 2.53-.8.33-1.79-.15-2.49-1.1-.27-.36-.78-.52-1.14-.24-.77.59-1.45 1.27-2.04 2.04-.28.36-.12.87.24 1.14.96.7 1.43 1.7 1.1 2.49-.33.8-1.37 1.16-2.53.98-.45-.07-.93.18-.99.64a11.1 11.1 0 0 0 0 2.88c.06.46.54.7.99.64 1.16-.18 2.2.19 2.53.98.33.8-.14 1.79-1.1 2.49-.36.27-.52.78-.24 1.14.59.77 1.27 1.45 2.04 2.04.36.28.87.12 1.14-.24.7-.95 1.7-1.43 2.49-1.1.8.33 1.16 1.37.98 2.53-.07.45.18.93.64.99a11.1 11.1 0 0 0 1.82.08c.38 0 .58-.43.4-.77a6.97 6.97 0 0 1-.35-5.63c.1-.28-.14-.59-.43-.59a4 4 0 1 1 4-4c0 .3.31.53.59.43a6.99 6.99 0 0 1 5.63.35c.34.18.76-.02.77-.4a11.39 11.39 0 0 0-.08-1.82c-.06-.46-.54-.7-.99-.64-1.16.18-2.2-.19-2.53-.98-.33-.8.14-1.79 1.1-2.49.36-.27.52-.78.24-1.14a11.07 11.07 0 0 0-2.04-2.04c-.36-.28-.87-.12-1.14.24-.7.96-1.7 1.43-2.49 1.1-.8-.33-1.16-1.37-.98-2.53.07-.45-.18-.93-.64-.99a11.1 11.1 0 0 0-2.88 0Z" fill="var(--text-positive)" class=""></path><path fill-rule="evenodd" d="M19 24a5 5 0 1 0 0-10 5 5 0 0 0 0 10Zm1-4a1 1 0 1 0-2 0v1a1 1 0 1 0 2 0v-1Zm0-3a1 1 0 1 1-2 0 1 1 0 0 1 2 0Z" clip-rule="evenodd" fill="var(--text-positive)" class=""></path></svg><div class="text-md/semibold_dc00ef" data-text-variant="text-md/semibold" style="color: var(--text-positive);">Activity Alerts Enabled<span> </span></div><span> </span></div><div class="subheader_df2817"><div class="dotSeparatedRow_df2817"><div class="alertsEnabledSubHeader_df2817"><div class="text-xs/medium_dc00ef" data-text-variant="text-xs/medium" style="color: var(--text-normal);">Enabled by<span> </span></div><div class="alertsEnabledSubHeaderAvatarUsername_df2817" aria-expanded="false" role="button" tabindex="0"><div><div class="wrapper_c51b4e" role="img" aria-label="TODO" aria-hidden="false" style="width: 16px; height: 16px;"><svg width="16" height="16" viewBox="0 0 16 16" class="mask_c51b4e svg_c51b4e" aria-hidden="true"><foreignObject x="0" y="0" width="16" height="16" mask="url(#svg-mask-avatar-default)"><div class="avatarStack_c51b4e"><img src="https://cdn.discordapp.com/avatars/289188960096223234/ab92155dfe5bf8c284b6f21848300cc8.webp?size=16" alt=" " class="avatar_c51b4e" aria-hidden="true"><span> </span></div></foreignObject></svg><span> </span></div><span> </span></div><div class="defaultColor_a595eb text-xs/medium_dc00ef" data-text-variant="text-xs/medium" style="color: rgb(233, 30, 99);"> @boarder2<span> </span></div><span> </span></div><span> </span></div><div class="dot_df2817"><span> </span></div><div class="text-xs/medium_dc00ef" data-text-variant="text-xs/medium" style="color: var(--text-normal);">2 days ago<span> </span></div><span> </span></div><span> </span></div><span> </span></div><div class="text-md/normal_dc00ef" data-text-variant="text-md/normal" style="color: var(--text-muted);">New and improved Activity Alerts are monitoring your server safety. AutoMod will send a message here if there is any DM or join activity that exceed what is normal for your server.<span> </span></div><span> </span></div><span> </span></div><span> </span></div><span> </span></div></div>',
+                            kind: { type: "automod", title: "Activity Alerts Enabled" },
                             children: [],
                             originalElement: IGNORE,
                         },
@@ -280,12 +365,13 @@ export class MessageParserTest {
                     deepEqual(this.parser.parseMessages(await this.loadTestFile("compact-automod.html")), [
                         {
                             id: "1322967103338447031",
-                            author: "System",
+                            author: "AutoMod",
                             timestamp: 1735490336976,
                             content:
                                 "Activity Alerts Enabled  Enabled by     @boarder2    2 days ago    New and improved Activity Alerts are monitoring your server safety. AutoMod will send a message here if there is any DM or join activity that exceed what is normal for your server.",
                             htmlContent:
                                 '<div class="mainContainer_df2817 compact_df2817 container_d76df7 compact_d76df7"><div class="content_d76df7"><div class="content_df2817 compact_df2817"><div class="flexLineBreak_df2817"><span> </span></div><div class="embedCard_df2817 compact_df2817"><div class="cardContent_df2817"><div class="cardHeaderContianer_df2817"><div class="cardHeader_df2817"><svg aria-hidden="true" role="img" xmlns="http://www.w3.org/2000/svg" width="16" height="16" fill="none" viewBox="0 0 24 24"><path d="M10.56 1.1c-.46.05-.7.53-.64.98.18 1.16-.19 2.2-.98 2.53-.8.33-1.79-.15-2.49-1.1-.27-.36-.78-.52-1.14-.24-.77.59-1.45 1.27-2.04 2.04-.28.36-.12.87.24 1.14.96.7 1.43 1.7 1.1 2.49-.33.8-1.37 1.16-2.53.98-.45-.07-.93.18-.99.64a11.1 11.1 0 0 0 0 2.88c.06.46.54.7.99.64 1.16-.18 2.2.19 2.53.98.33.8-.14 1.79-1.1 2.49-.36.27-.52.78-.24 1.14.59.77 1.27 1.45 2.04 2.04.36.28.87.12 1.14-.24.7-.95 1.7-1.43 2.49-1.1.8.33 1.16 1.37.98 2.53-.07.45.18.93.64.99a11.1 11.1 0 0 0 1.82.08c.38 0 .58-.43.4-.77a6.97 6.97 0 0 1-.35-5.63c.1-.28-.14-.59-.43-.59a4 4 0 1 1 4-4c0 .3.31.53.59.43a6.99 6.99 0 0 1 5.63.35c.34.18.76-.02.77-.4a11.39 11.39 0 0 0-.08-1.82c-.06-.46-.54-.7-.99-.64-1.16.18-2.2-.19-2.53-.98-.33-.8.14-1.79 1.1-2.49.36-.27.52-.78.24-1.14a11.07 11.07 0 0 0-2.04-2.04c-.36-.28-.87-.12-1.14.24-.7.96-1.7 1.43-2.49 1.1-.8-.33-1.16-1.37-.98-2.53.07-.45-.18-.93-.64-.99a11.1 11.1 0 0 0-2.88 0Z" fill="var(--text-positive)" class=""></path><path fill-rule="evenodd" d="M19 24a5 5 0 1 0 0-10 5 5 0 0 0 0 10Zm1-4a1 1 0 1 0-2 0v1a1 1 0 1 0 2 0v-1Zm0-3a1 1 0 1 1-2 0 1 1 0 0 1 2 0Z" clip-rule="evenodd" fill="var(--text-positive)" class=""></path></svg><div class="text-md/semibold_dc00ef" data-text-variant="text-md/semibold" style="color: var(--text-positive);">Activity Alerts Enabled<span> </span></div><span> </span></div><div class="subheader_df2817"><div class="dotSeparatedRow_df2817"><div class="alertsEnabledSubHeader_df2817"><div class="text-xs/medium_dc00ef" data-text-variant="text-xs/medium" style="color: var(--text-normal);">Enabled by<span> </span></div><div class="alertsEnabledSubHeaderAvatarUsername_df2817" aria-expanded="false" role="button" tabindex="0"><div><div class="wrapper_c51b4e" role="img" aria-label="TODO" aria-hidden="false" style="width: 16px; height: 16px;"><svg width="16" height="16" viewBox="0 0 16 16" class="mask_c51b4e svg_c51b4e" aria-hidden="true"><foreignObject x="0" y="0" width="16" height="16" mask="url(#svg-mask-avatar-default)"><div class="avatarStack_c51b4e"><img src="https://cdn.discordapp.com/avatars/289188960096223234/ab92155dfe5bf8c284b6f21848300cc8.webp?size=16" alt=" " class="avatar_c51b4e" aria-hidden="true"><span> </span></div></foreignObject></svg><span> </span></div><span> </span></div><div class="defaultColor_a595eb text-xs/medium_dc00ef" data-text-variant="text-xs/medium" style="color: rgb(233, 30, 99);"> @boarder2<span> </span></div><span> </span></div><span> </span></div><div class="dot_df2817"><span> </span></div><div class="text-xs/medium_dc00ef" data-text-variant="text-xs/medium" style="color: var(--text-normal);">2 days ago<span> </span></div><span> </span></div><span> </span></div><span> </span></div><div class="text-md/normal_dc00ef" data-text-variant="text-md/normal" style="color: var(--text-muted);">New and improved Activity Alerts are monitoring your server safety. AutoMod will send a message here if there is any DM or join activity that exceed what is normal for your server.<span> </span></div><span> </span></div><span> </span></div><span> </span></div><span> </span></div></div>',
+                            kind: { type: "automod", title: "Activity Alerts Enabled" },
                             children: [],
                             originalElement: IGNORE,
                         },
@@ -299,6 +385,10 @@ export class MessageParserTest {
                         {
                             id: "1323826029218762773",
                             author: "electroly",
+                            authorId: "459533810153947156",
+                            avatarUrl:
+                                "https://cdn.discordapp.com/avatars/459533810153947156/1397484517a7efc69a0a5600571b5e9e.webp?size=80",
+                            roleColor: "rgb(233, 30, 99)",
                             timestamp: 1735695120864,
                             content: "test 1",
                             htmlContent:
@@ -309,6 +399,10 @@ export class MessageParserTest {
                         {
                             id: "1323826033287233627",
                             author: "electroly",
+                            authorId: "459533810153947156",
+                            avatarUrl:
+                                "https://cdn.discordapp.com/avatars/459533810153947156/1397484517a7efc69a0a5600571b5e9e.webp?size=80",
+                            roleColor: "rgb(233, 30, 99)",
                             timestamp: 1735695121834,
                             content: "test 2",
                             htmlContent:
@@ -326,6 +420,10 @@ export class MessageParserTest {
                         {
                             id: "1323826029218762773",
                             author: "electroly",
+                            authorId: "459533810153947156",
+                            avatarUrl:
+                                "https://cdn.discordapp.com/avatars/459533810153947156/1397484517a7efc69a0a5600571b5e9e.webp?size=32",
+                            roleColor: "rgb(233, 30, 99)",
                             timestamp: 1735695120864,
                             content: "test 1",
                             htmlContent:
@@ -336,6 +434,10 @@ export class MessageParserTest {
                         {
                             id: "1323826033287233627",
                             author: "electroly",
+                            authorId: "459533810153947156",
+                            avatarUrl:
+                                "https://cdn.discordapp.com/avatars/459533810153947156/1397484517a7efc69a0a5600571b5e9e.webp?size=32",
+                            roleColor: "rgb(233, 30, 99)",
                             timestamp: 1735695121834,
                             content: "test 2",
                             htmlContent:
@@ -346,6 +448,870 @@ export class MessageParserTest {
                     ]);
                 },
             },
+            {
+                name: "parse cozy-attachment-image.html",
+                fn: async () => {
+                    deepEqual(this.parser.parseMessages(await this.loadTestFile("cozy-attachment-image.html")), [
+                        {
+                            id: "1324000000000000001",
+                            author: "electroly",
+                            authorId: "459533810153947156",
+                            avatarUrl:
+                                "https://cdn.discordapp.com/avatars/459533810153947156/1397484517a7efc69a0a5600571b5e9e.webp?size=80",
+                            roleColor: "rgb(233, 30, 99)",
+                            timestamp: 1735632750609,
+                            content: "look at these 🖼️ 2 Images",
+                            htmlContent:
+                                '<div id="message-content-1324000000000000001" class="markup_f8f345 messageContent_f9f2ca"><span>look at these</span></div>',
+                            attachments: [
+                                {
+                                    type: "image",
+                                    url: "https://cdn.discordapp.com/attachments/1323564394017194016/1324000000000000011/cat.png?ex=6776f2a1&is=6775a121&hm=4c1b",
+                                    previewUrl:
+                                        "https://media.discordapp.net/attachments/1323564394017194016/1324000000000000011/cat.png?ex=6776f2a1&is=6775a121&hm=4c1b&=&format=webp&width=200&height=150",
+                                    name: "cat.png",
+                                },
+                                {
+                                    type: "image",
+                                    url: "https://cdn.discordapp.com/attachments/1323564394017194016/1324000000000000012/dog.jpg?ex=6776f2a1&is=6775a121&hm=4c1b",
+                                    previewUrl:
+                                        "https://media.discordapp.net/attachments/1323564394017194016/1324000000000000012/dog.jpg?ex=6776f2a1&is=6775a121&hm=4c1b&=&format=webp&width=200&height=150",
+                                    name: "dog.jpg",
+                                },
+                            ],
+                            children: [],
+                            originalElement: IGNORE,
+                        },
+                    ]);
+                },
+            },
+            {
+                name: "parse compact-attachment-image.html",
+                fn: async () => {
+                    deepEqual(this.parser.parseMessages(await this.loadTestFile("compact-attachment-image.html")), [
+                        {
+                            id: "1324000000000000001",
+                            author: "electroly",
+                            authorId: "459533810153947156",
+                            avatarUrl:
+                                "https://cdn.discordapp.com/avatars/459533810153947156/1397484517a7efc69a0a5600571b5e9e.webp?size=32",
+                            roleColor: "rgb(233, 30, 99)",
+                            timestamp: 1735632750609,
+                            content: "look at these 🖼️ 2 Images",
+                            htmlContent:
+                                '<div id="message-content-1324000000000000001" class="markup_f8f345 messageContent_f9f2ca"><span>look at these</span></div>',
+                            attachments: [
+                                {
+                                    type: "image",
+                                    url: "https://cdn.discordapp.com/attachments/1323564394017194016/1324000000000000011/cat.png?ex=6776f2a1&is=6775a121&hm=4c1b",
+                                    previewUrl:
+                                        "https://media.discordapp.net/attachments/1323564394017194016/1324000000000000011/cat.png?ex=6776f2a1&is=6775a121&hm=4c1b&=&format=webp&width=200&height=150",
+                                    name: "cat.png",
+                                },
+                                {
+                                    type: "image",
+                                    url: "https://cdn.discordapp.com/attachments/1323564394017194016/1324000000000000012/dog.jpg?ex=6776f2a1&is=6775a121&hm=4c1b",
+                                    previewUrl:
+                                        "https://media.discordapp.net/attachments/1323564394017194016/1324000000000000012/dog.jpg?ex=6776f2a1&is=6775a121&hm=4c1b&=&format=webp&width=200&height=150",
+                                    name: "dog.jpg",
+                                },
+                            ],
+                            children: [],
+                            originalElement: IGNORE,
+                        },
+                    ]);
+                },
+            },
+            {
+                name: "parse cozy-attachment-gif.html",
+                fn: async () => {
+                    deepEqual(this.parser.parseMessages(await this.loadTestFile("cozy-attachment-gif.html")), [
+                        {
+                            id: "1324000000000000007",
+                            author: "electroly",
+                            authorId: "459533810153947156",
+                            avatarUrl:
+                                "https://cdn.discordapp.com/avatars/459533810153947156/1397484517a7efc69a0a5600571b5e9e.webp?size=80",
+                            roleColor: "rgb(233, 30, 99)",
+                            timestamp: 1735632750609,
+                            content: "🎞️ GIF",
+                            htmlContent:
+                                '<div id="message-content-1324000000000000007" class="markup_f8f345 messageContent_f9f2ca"></div>',
+                            attachments: [
+                                {
+                                    type: "gif",
+                                    url: "https://media.tenor.com/videos/cat-typing/mp4",
+                                    previewUrl: "https://media.tenor.com/images/cat-typing/tenor.png",
+                                },
+                            ],
+                            children: [],
+                            originalElement: IGNORE,
+                        },
+                    ]);
+                },
+            },
+            {
+                name: "parse compact-attachment-gif.html",
+                fn: async () => {
+                    deepEqual(this.parser.parseMessages(await this.loadTestFile("compact-attachment-gif.html")), [
+                        {
+                            id: "1324000000000000007",
+                            author: "electroly",
+                            authorId: "459533810153947156",
+                            avatarUrl:
+                                "https://cdn.discordapp.com/avatars/459533810153947156/1397484517a7efc69a0a5600571b5e9e.webp?size=32",
+                            roleColor: "rgb(233, 30, 99)",
+                            timestamp: 1735632750609,
+                            content: "🎞️ GIF",
+                            htmlContent:
+                                '<div id="message-content-1324000000000000007" class="markup_f8f345 messageContent_f9f2ca"></div>',
+                            attachments: [
+                                {
+                                    type: "gif",
+                                    url: "https://media.tenor.com/videos/cat-typing/mp4",
+                                    previewUrl: "https://media.tenor.com/images/cat-typing/tenor.png",
+                                },
+                            ],
+                            children: [],
+                            originalElement: IGNORE,
+                        },
+                    ]);
+                },
+            },
+            {
+                name: "parse cozy-attachment-video.html",
+                fn: async () => {
+                    deepEqual(this.parser.parseMessages(await this.loadTestFile("cozy-attachment-video.html")), [
+                        {
+                            id: "1324000000000000002",
+                            author: "electroly",
+                            authorId: "459533810153947156",
+                            avatarUrl:
+                                "https://cdn.discordapp.com/avatars/459533810153947156/1397484517a7efc69a0a5600571b5e9e.webp?size=80",
+                            roleColor: "rgb(233, 30, 99)",
+                            timestamp: 1735632750609,
+                            content: "🎬 Video",
+                            htmlContent:
+                                '<div id="message-content-1324000000000000002" class="markup_f8f345 messageContent_f9f2ca"></div>',
+                            attachments: [
+                                {
+                                    type: "video",
+                                    url: "https://cdn.discordapp.com/attachments/1323564394017194016/1324000000000000021/clip.mp4?ex=6776f2a1&is=6775a121&hm=9a2e&",
+                                    previewUrl:
+                                        "https://media.discordapp.net/attachments/1323564394017194016/1324000000000000021/clip.mp4?ex=6776f2a1&is=6775a121&hm=9a2e&format=webp&width=400&height=225",
+                                    name: "clip.mp4",
+                                    size: "1.23 MB",
+                                },
+                            ],
+                            children: [],
+                            originalElement: IGNORE,
+                        },
+                    ]);
+                },
+            },
+            {
+                name: "parse compact-attachment-video.html",
+                fn: async () => {
+                    deepEqual(this.parser.parseMessages(await this.loadTestFile("compact-attachment-video.html")), [
+                        {
+                            id: "1324000000000000002",
+                            author: "electroly",
+                            authorId: "459533810153947156",
+                            avatarUrl:
+                                "https://cdn.discordapp.com/avatars/459533810153947156/1397484517a7efc69a0a5600571b5e9e.webp?size=32",
+                            roleColor: "rgb(233, 30, 99)",
+                            timestamp: 1735632750609,
+                            content: "🎬 Video",
+                            htmlContent:
+                                '<div id="message-content-1324000000000000002" class="markup_f8f345 messageContent_f9f2ca"></div>',
+                            attachments: [
+                                {
+                                    type: "video",
+                                    url: "https://cdn.discordapp.com/attachments/1323564394017194016/1324000000000000021/clip.mp4?ex=6776f2a1&is=6775a121&hm=9a2e&",
+                                    previewUrl:
+                                        "https://media.discordapp.net/attachments/1323564394017194016/1324000000000000021/clip.mp4?ex=6776f2a1&is=6775a121&hm=9a2e&format=webp&width=400&height=225",
+                                    name: "clip.mp4",
+                                    size: "1.23 MB",
+                                },
+                            ],
+                            children: [],
+                            originalElement: IGNORE,
+                        },
+                    ]);
+                },
+            },
+            {
+                name: "parse cozy-attachment-audio.html",
+                fn: async () => {
+                    deepEqual(this.parser.parseMessages(await this.loadTestFile("cozy-attachment-audio.html")), [
+                        {
+                            id: "1324000000000000003",
+                            author: "electroly",
+                            authorId: "459533810153947156",
+                            avatarUrl:
+                                "https://cdn.discordapp.com/avatars/459533810153947156/1397484517a7efc69a0a5600571b5e9e.webp?size=80",
+                            roleColor: "rgb(233, 30, 99)",
+                            timestamp: 1735632750609,
+                            content: "🎵 song.mp3",
+                            htmlContent:
+                                '<div id="message-content-1324000000000000003" class="markup_f8f345 messageContent_f9f2ca"></div>',
+                            attachments: [
+                                {
+                                    type: "audio",
+                                    url: "https://cdn.discordapp.com/attachments/1323564394017194016/1324000000000000031/song.mp3?ex=6776f2a1&is=6775a121&hm=71fd&",
+                                    name: "song.mp3",
+                                    size: "3.41 MB",
+                                },
+                            ],
+                            children: [],
+                            originalElement: IGNORE,
+                        },
+                    ]);
+                },
+            },
+            {
+                name: "parse compact-attachment-audio.html",
+                fn: async () => {
+                    deepEqual(this.parser.parseMessages(await this.loadTestFile("compact-attachment-audio.html")), [
+                        {
+                            id: "1324000000000000003",
+                            author: "electroly",
+                            authorId: "459533810153947156",
+                            avatarUrl:
+                                "https://cdn.discordapp.com/avatars/459533810153947156/1397484517a7efc69a0a5600571b5e9e.webp?size=32",
+                            roleColor: "rgb(233, 30, 99)",
+                            timestamp: 1735632750609,
+                            content: "🎵 song.mp3",
+                            htmlContent:
+                                '<div id="message-content-1324000000000000003" class="markup_f8f345 messageContent_f9f2ca"></div>',
+                            attachments: [
+                                {
+                                    type: "audio",
+                                    url: "https://cdn.discordapp.com/attachments/1323564394017194016/1324000000000000031/song.mp3?ex=6776f2a1&is=6775a121&hm=71fd&",
+                                    name: "song.mp3",
+                                    size: "3.41 MB",
+                                },
+                            ],
+                            children: [],
+                            originalElement: IGNORE,
+                        },
+                    ]);
+                },
+            },
+            {
+                name: "parse cozy-attachment-voice-message.html",
+                fn: async () => {
+                    deepEqual(
+                        this.parser.parseMessages(await this.loadTestFile("cozy-attachment-voice-message.html")),
+                        [
+                            {
+                                id: "1324000000000000004",
+                                author: "electroly",
+                                authorId: "459533810153947156",
+                                avatarUrl:
+                                    "https://cdn.discordapp.com/avatars/459533810153947156/1397484517a7efc69a0a5600571b5e9e.webp?size=80",
+                                roleColor: "rgb(233, 30, 99)",
+                                timestamp: 1735632750609,
+                                content: "🎤 Voice message (0:07)",
+                                htmlContent:
+                                    '<div id="message-content-1324000000000000004" class="markup_f8f345 messageContent_f9f2ca"></div>',
+                                attachments: [
+                                    {
+                                        type: "voice",
+                                        url: "https://cdn.discordapp.com/attachments/1323564394017194016/1324000000000000041/voice-message.ogg?ex=6776f2a1&is=6775a121&hm=0b3c&",
+                                        duration: "0:07",
+                                    },
+                                ],
+                                children: [],
+                                originalElement: IGNORE,
+                            },
+                        ],
+                    );
+                },
+            },
+            {
+                name: "parse compact-attachment-voice-message.html",
+                fn: async () => {
+                    deepEqual(
+                        this.parser.parseMessages(await this.loadTestFile("compact-attachment-voice-message.html")),
+                        [
+                            {
+                                id: "1324000000000000004",
+                                author: "electroly",
+                                authorId: "459533810153947156",
+                                avatarUrl:
+                                    "https://cdn.discordapp.com/avatars/459533810153947156/1397484517a7efc69a0a5600571b5e9e.webp?size=32",
+                                roleColor: "rgb(233, 30, 99)",
+                                timestamp: 1735632750609,
+                                content: "🎤 Voice message (0:07)",
+                                htmlContent:
+                                    '<div id="message-content-1324000000000000004" class="markup_f8f345 messageContent_f9f2ca"></div>',
+                                attachments: [
+                                    {
+                                        type: "voice",
+                                        url: "https://cdn.discordapp.com/attachments/1323564394017194016/1324000000000000041/voice-message.ogg?ex=6776f2a1&is=6775a121&hm=0b3c&",
+                                        duration: "0:07",
+                                    },
+                                ],
+                                children: [],
+                                originalElement: IGNORE,
+                            },
+                        ],
+                    );
+                },
+            },
+            {
+                name: "parse cozy-attachment-file.html",
+                fn: async () => {
+                    deepEqual(this.parser.parseMessages(await this.loadTestFile("cozy-attachment-file.html")), [
+                        {
+                            id: "1324000000000000005",
+                            author: "electroly",
+                            authorId: "459533810153947156",
+                            avatarUrl:
+                                "https://cdn.discordapp.com/avatars/459533810153947156/1397484517a7efc69a0a5600571b5e9e.webp?size=80",
+                            roleColor: "rgb(233, 30, 99)",
+                            timestamp: 1735632750609,
+                            content: "here's the report 📎 report.pdf",
+                            htmlContent:
+                                '<div id="message-content-1324000000000000005" class="markup_f8f345 messageContent_f9f2ca"><span>here\'s the report</span></div>',
+                            attachments: [
+                                {
+                                    type: "file",
+                                    url: "https://cdn.discordapp.com/attachments/1323564394017194016/1324000000000000051/report.pdf?ex=6776f2a1&is=6775a121&hm=5d2a&",
+                                    name: "report.pdf",
+                                    size: "48.01 KB",
+                                },
+                            ],
+                            children: [],
+                            originalElement: IGNORE,
+                        },
+                    ]);
+                },
+            },
+            {
+                name: "parse compact-attachment-file.html",
+                fn: async () => {
+                    deepEqual(this.parser.parseMessages(await this.loadTestFile("compact-attachment-file.html")), [
+                        {
+                            id: "1324000000000000005",
+                            author: "electroly",
+                            authorId: "459533810153947156",
+                            avatarUrl:
+                                "https://cdn.discordapp.com/avatars/459533810153947156/1397484517a7efc69a0a5600571b5e9e.webp?size=32",
+                            roleColor: "rgb(233, 30, 99)",
+                            timestamp: 1735632750609,
+                            content: "here's the report 📎 report.pdf",
+                            htmlContent:
+                                '<div id="message-content-1324000000000000005" class="markup_f8f345 messageContent_f9f2ca"><span>here\'s the report</span></div>',
+                            attachments: [
+                                {
+                                    type: "file",
+                                    url: "https://cdn.discordapp.com/attachments/1323564394017194016/1324000000000000051/report.pdf?ex=6776f2a1&is=6775a121&hm=5d2a&",
+                                    name: "report.pdf",
+                                    size: "48.01 KB",
+                                },
+                            ],
+                            children: [],
+                            originalElement: IGNORE,
+                        },
+                    ]);
+                },
+            },
+            {
+                name: "parse cozy-attachment-sticker.html",
+                fn: async () => {
+                    deepEqual(this.parser.parseMessages(await this.loadTestFile("cozy-attachment-sticker.html")), [
+                        {
+                            id: "1324000000000000006",
+                            author: "electroly",
+                            authorId: "459533810153947156",
+                            avatarUrl:
+                                "https://cdn.discordapp.com/avatars/459533810153947156/1397484517a7efc69a0a5600571b5e9e.webp?size=80",
+                            roleColor: "rgb(233, 30, 99)",
+                            timestamp: 1735632750609,
+                            content: "🏷️ Wumpus Wave",
+                            htmlContent:
+                                '<div id="message-content-1324000000000000006" class="markup_f8f345 messageContent_f9f2ca"></div>',
+                            attachments: [
+                                {
+                                    type: "sticker",
+                                    url: "https://media.discordapp.net/stickers/749054660769218631.png?size=160&passthrough=false",
+                                    name: "Wumpus Wave",
+                                },
+                            ],
+                            children: [],
+                            originalElement: IGNORE,
+                        },
+                    ]);
+                },
+            },
+            {
+                name: "parse compact-attachment-sticker.html",
+                fn: async () => {
+                    deepEqual(this.parser.parseMessages(await this.loadTestFile("compact-attachment-sticker.html")), [
+                        {
+                            id: "1324000000000000006",
+                            author: "electroly",
+                            authorId: "459533810153947156",
+                            avatarUrl:
+                                "https://cdn.discordapp.com/avatars/459533810153947156/1397484517a7efc69a0a5600571b5e9e.webp?size=32",
+                            roleColor: "rgb(233, 30, 99)",
+                            timestamp: 1735632750609,
+                            content: "🏷️ Wumpus Wave",
+                            htmlContent:
+                                '<div id="message-content-1324000000000000006" class="markup_f8f345 messageContent_f9f2ca"></div>',
+                            attachments: [
+                                {
+                                    type: "sticker",
+                                    url: "https://media.discordapp.net/stickers/749054660769218631.png?size=160&passthrough=false",
+                                    name: "Wumpus Wave",
+                                },
+                            ],
+                            children: [],
+                            originalElement: IGNORE,
+                        },
+                    ]);
+                },
+            },
+            {
+                name: "parse cozy-poll.html",
+                fn: async () => {
+                    deepEqual(this.parser.parseMessages(await this.loadTestFile("cozy-poll.html")), [
+                        {
+                            id: "1324000000000000008",
+                            author: "electroly",
+                            authorId: "459533810153947156",
+                            avatarUrl:
+                                "https://cdn.discordapp.com/avatars/459533810153947156/1397484517a7efc69a0a5600571b5e9e.webp?size=80",
+                            roleColor: "rgb(233, 30, 99)",
+                            timestamp: 1735632750609,
+                            content: "📊 Lunch? (3 options, 12 votes)",
+                            htmlContent:
+                                '<div id="message-content-1324000000000000008" class="markup_f8f345 messageContent_f9f2ca"></div>',
+                            poll: {
+                                question: "Lunch?",
+                                answers: [
+                                    { text: "Pizza", votes: 5 },
+                                    { text: "Tacos", votes: 4 },
+                                    { text: "Sushi", votes: 3 },
+                                ],
+                                totalVotes: 12,
+                            },
+                            children: [],
+                            originalElement: IGNORE,
+                        },
+                    ]);
+                },
+            },
+            {
+                name: "parse compact-poll.html",
+                fn: async () => {
+                    deepEqual(this.parser.parseMessages(await this.loadTestFile("compact-poll.html")), [
+                        {
+                            id: "1324000000000000008",
+                            author: "electroly",
+                            authorId: "459533810153947156",
+                            avatarUrl:
+                                "https://cdn.discordapp.com/avatars/459533810153947156/1397484517a7efc69a0a5600571b5e9e.webp?size=32",
+                            roleColor: "rgb(233, 30, 99)",
+                            timestamp: 1735632750609,
+                            content: "📊 Lunch? (3 options, 12 votes)",
+                            htmlContent:
+                                '<div id="message-content-1324000000000000008" class="markup_f8f345 messageContent_f9f2ca"></div>',
+                            poll: {
+                                question: "Lunch?",
+                                answers: [
+                                    { text: "Pizza", votes: 5 },
+                                    { text: "Tacos", votes: 4 },
+                                    { text: "Sushi", votes: 3 },
+                                ],
+                                totalVotes: 12,
+                            },
+                            children: [],
+                            originalElement: IGNORE,
+                        },
+                    ]);
+                },
+            },
+            {
+                name: "parse cozy-forwarded.html",
+                fn: async () => {
+                    deepEqual(this.parser.parseMessages(await this.loadTestFile("cozy-forwarded.html")), [
+                        {
+                            id: "1324000000000000009",
+                            author: "electroly",
+                            authorId: "459533810153947156",
+                            avatarUrl:
+                                "https://cdn.discordapp.com/avatars/459533810153947156/1397484517a7efc69a0a5600571b5e9e.webp?size=80",
+                            roleColor: "rgb(233, 30, 99)",
+                            timestamp: 1735632750609,
+                            content: "↪️ Deploy is done, the new build is live",
+                            htmlContent: "<div></div>",
+                            forwarded: {
+                                content: "Deploy is done, the new build is live",
+                                htmlContent: "<span>Deploy is done, the new build is live</span>",
+                                origin: "#announcements",
+                                url: "https://discord.com/channels/1208174034523357206/1208174035215417344/1323500000000000001",
+                                timestamp: 1735581731000,
+                            },
+                            children: [],
+                            originalElement: IGNORE,
+                        },
+                    ]);
+                },
+            },
+            {
+                name: "parse compact-forwarded.html",
+                fn: async () => {
+                    deepEqual(this.parser.parseMessages(await this.loadTestFile("compact-forwarded.html")), [
+                        {
+                            id: "1324000000000000009",
+                            author: "electroly",
+                            authorId: "459533810153947156",
+                            avatarUrl:
+                                "https://cdn.discordapp.com/avatars/459533810153947156/1397484517a7efc69a0a5600571b5e9e.webp?size=32",
+                            roleColor: "rgb(233, 30, 99)",
+                            timestamp: 1735632750609,
+                            content: "↪️ Deploy is done, the new build is live",
+                            htmlContent: "<div></div>",
+                            forwarded: {
+                                content: "Deploy is done, the new build is live",
+                                htmlContent: "<span>Deploy is done, the new build is live</span>",
+                                origin: "#announcements",
+                                url: "https://discord.com/channels/1208174034523357206/1208174035215417344/1323500000000000001",
+                                timestamp: 1735581731000,
+                            },
+                            children: [],
+                            originalElement: IGNORE,
+                        },
+                    ]);
+                },
+            },
+            {
+                name: "parse cozy-pin.html",
+                fn: async () => {
+                    deepEqual(this.parser.parseMessages(await this.loadTestFile("cozy-pin.html")), [
+                        {
+                            id: "1323586011553710101",
+                            author: "electroly",
+                            timestamp: 1735637704633,
+                            content:
+                                "electroly pinned a message to this channel. See all pinned messages. — Today at 9:35 AM",
+                            htmlContent:
+                                '<div class="container_d76df7 cozy_d76df7"><div class="iconContainer_d76df7"><div data-accessibility="desaturate" class="icon_d76df7 iconSize_d76df7" style="background-image: url(&quot;/assets/5da4cdab01d4d5c1f8d2.svg&quot;);"><span> </span></div><span> </span></div><div class="content_d76df7"><a class="anchor_af404b anchorUnderlineOnHover_af404b" aria-expanded="false" role="button" tabindex="0" style="color: rgb(233, 30, 99);"><span class="username_de3235 desaturateUserColors_c7819f" style="color: rgb(233, 30, 99);">electroly</span></a> pinned <a class="anchor_af404b anchorUnderlineOnHover_af404b" href="https://discord.com/channels/1208174034523357206/1323584268588285952/1323584268588285952" rel="noreferrer noopener" target="_blank"><strong>a message</strong></a> to this channel. See all <a class="anchor_af404b anchorUnderlineOnHover_af404b" role="button" tabindex="0"><strong>pinned messages</strong></a>.<span class="timestamp_f9f2ca timestampInline_f9f2ca"><time aria-label="Today at 9:35 AM" datetime="2024-12-31T09:35:04.633Z"><i class="separator_f9f2ca" aria-hidden="true"> — </i>Today at 9:35 AM</time></span><span> </span></div></div>',
+                            kind: { type: "pin", pinnedMessageId: "1323584268588285952" },
+                            children: [],
+                            originalElement: IGNORE,
+                        },
+                    ]);
+                },
+            },
+            {
+                name: "parse compact-pin.html",
+                fn: async () => {
+                    deepEqual(this.parser.parseMessages(await this.loadTestFile("compact-pin.html")), [
+                        {
+                            id: "1323586011553710101",
+                            author: "electroly",
+                            timestamp: 1735637704633,
+                            content:
+                                "electroly pinned a message to this channel. See all pinned messages. — Today at 9:35 AM",
+                            htmlContent:
+                                '<div class="container_d76df7 compact_d76df7"><div class="iconContainer_d76df7"><div data-accessibility="desaturate" class="icon_d76df7 iconSize_d76df7" style="background-image: url(&quot;/assets/5da4cdab01d4d5c1f8d2.svg&quot;);"><span> </span></div><span> </span></div><div class="content_d76df7"><a class="anchor_af404b anchorUnderlineOnHover_af404b" aria-expanded="false" role="button" tabindex="0" style="color: rgb(233, 30, 99);"><span class="username_de3235 desaturateUserColors_c7819f" style="color: rgb(233, 30, 99);">electroly</span></a> pinned <a class="anchor_af404b anchorUnderlineOnHover_af404b" href="https://discord.com/channels/1208174034523357206/1323584268588285952/1323584268588285952" rel="noreferrer noopener" target="_blank"><strong>a message</strong></a> to this channel. See all <a class="anchor_af404b anchorUnderlineOnHover_af404b" role="button" tabindex="0"><strong>pinned messages</strong></a>.<span class="timestamp_f9f2ca timestampInline_f9f2ca"><time aria-label="Today at 9:35 AM" datetime="2024-12-31T09:35:04.633Z"><i class="separator_f9f2ca" aria-hidden="true"> — </i>Today at 9:35 AM</time></span><span> </span></div></div>',
+                            kind: { type: "pin", pinnedMessageId: "1323584268588285952" },
+                            children: [],
+                            originalElement: IGNORE,
+                        },
+                    ]);
+                },
+            },
+            {
+                name: "parse cozy-join.html",
+                fn: async () => {
+                    deepEqual(this.parser.parseMessages(await this.loadTestFile("cozy-join.html")), [
+                        {
+                            id: "1323586011553710102",
+                            author: "electroly",
+                            timestamp: 1735637704633,
+                            content: "electroly just slid into the server. — Today at 9:35 AM",
+                            htmlContent:
+                                '<div class="container_d76df7 cozy_d76df7"><div class="iconContainer_d76df7"><div data-accessibility="desaturate" class="icon_d76df7 iconSize_d76df7" style="background-image: url(&quot;/assets/e5bd4ebd2a49fe13f2c9.svg&quot;);"><span> </span></div><span> </span></div><div class="content_d76df7"><a class="anchor_af404b anchorUnderlineOnHover_af404b" aria-expanded="false" role="button" tabindex="0" style="color: rgb(233, 30, 99);"><span class="username_de3235 desaturateUserColors_c7819f" style="color: rgb(233, 30, 99);">electroly</span></a> just slid into the server.<span class="timestamp_f9f2ca timestampInline_f9f2ca"><time aria-label="Today at 9:35 AM" datetime="2024-12-31T09:35:04.633Z"><i class="separator_f9f2ca" aria-hidden="true"> — </i>Today at 9:35 AM</time></span><span> </span></div></div>',
+                            kind: { type: "join" },
+                            children: [],
+                            originalElement: IGNORE,
+                        },
+                    ]);
+                },
+            },
+            {
+                name: "parse compact-join.html",
+                fn: async () => {
+                    deepEqual(this.parser.parseMessages(await this.loadTestFile("compact-join.html")), [
+                        {
+                            id: "1323586011553710102",
+                            author: "electroly",
+                            timestamp: 1735637704633,
+                            content: "electroly just slid into the server. — Today at 9:35 AM",
+                            htmlContent:
+                                '<div class="container_d76df7 compact_d76df7"><div class="iconContainer_d76df7"><div data-accessibility="desaturate" class="icon_d76df7 iconSize_d76df7" style="background-image: url(&quot;/assets/e5bd4ebd2a49fe13f2c9.svg&quot;);"><span> </span></div><span> </span></div><div class="content_d76df7"><a class="anchor_af404b anchorUnderlineOnHover_af404b" aria-expanded="false" role="button" tabindex="0" style="color: rgb(233, 30, 99);"><span class="username_de3235 desaturateUserColors_c7819f" style="color: rgb(233, 30, 99);">electroly</span></a> just slid into the server.<span class="timestamp_f9f2ca timestampInline_f9f2ca"><time aria-label="Today at 9:35 AM" datetime="2024-12-31T09:35:04.633Z"><i class="separator_f9f2ca" aria-hidden="true"> — </i>Today at 9:35 AM</time></span><span> </span></div></div>',
+                            kind: { type: "join" },
+                            children: [],
+                            originalElement: IGNORE,
+                        },
+                    ]);
+                },
+            },
+            {
+                name: "parse cozy-thread-created.html",
+                fn: async () => {
+                    deepEqual(this.parser.parseMessages(await this.loadTestFile("cozy-thread-created.html")), [
+                        {
+                            id: "1323586011553710103",
+                            author: "electroly",
+                            timestamp: 1735637704633,
+                            content:
+                                "electroly started a thread: release planning. See all threads. — Today at 9:35 AM",
+                            htmlContent:
+                                '<div class="container_d76df7 cozy_d76df7"><div class="iconContainer_d76df7"><div data-accessibility="desaturate" class="icon_d76df7 iconSize_d76df7" style="background-image: url(&quot;/assets/9f41a5b3b7a7b2d0f5e1.svg&quot;);"><span> </span></div><span> </span></div><div class="content_d76df7"><a class="anchor_af404b anchorUnderlineOnHover_af404b" aria-expanded="false" role="button" tabindex="0" style="color: rgb(233, 30, 99);"><span class="username_de3235 desaturateUserColors_c7819f" style="color: rgb(233, 30, 99);">electroly</span></a> started a thread: <a class="anchor_af404b anchorUnderlineOnHover_af404b" role="button" tabindex="0"><strong>release planning</strong></a>. See all <a class="anchor_af404b anchorUnderlineOnHover_af404b" role="button" tabindex="0"><strong>threads</strong></a>.<span class="timestamp_f9f2ca timestampInline_f9f2ca"><time aria-label="Today at 9:35 AM" datetime="2024-12-31T09:35:04.633Z"><i class="separator_f9f2ca" aria-hidden="true"> — </i>Today at 9:35 AM</time></span><span> </span></div></div>',
+                            kind: { type: "threadCreated", threadName: "release planning" },
+                            children: [],
+                            originalElement: IGNORE,
+                        },
+                    ]);
+                },
+            },
+            {
+                name: "parse compact-thread-created.html",
+                fn: async () => {
+                    deepEqual(this.parser.parseMessages(await this.loadTestFile("compact-thread-created.html")), [
+                        {
+                            id: "1323586011553710103",
+                            author: "electroly",
+                            timestamp: 1735637704633,
+                            content:
+                                "electroly started a thread: release planning. See all threads. — Today at 9:35 AM",
+                            htmlContent:
+                                '<div class="container_d76df7 compact_d76df7"><div class="iconContainer_d76df7"><div data-accessibility="desaturate" class="icon_d76df7 iconSize_d76df7" style="background-image: url(&quot;/assets/9f41a5b3b7a7b2d0f5e1.svg&quot;);"><span> </span></div><span> </span></div><div class="content_d76df7"><a class="anchor_af404b anchorUnderlineOnHover_af404b" aria-expanded="false" role="button" tabindex="0" style="color: rgb(233, 30, 99);"><span class="username_de3235 desaturateUserColors_c7819f" style="color: rgb(233, 30, 99);">electroly</span></a> started a thread: <a class="anchor_af404b anchorUnderlineOnHover_af404b" role="button" tabindex="0"><strong>release planning</strong></a>. See all <a class="anchor_af404b anchorUnderlineOnHover_af404b" role="button" tabindex="0"><strong>threads</strong></a>.<span class="timestamp_f9f2ca timestampInline_f9f2ca"><time aria-label="Today at 9:35 AM" datetime="2024-12-31T09:35:04.633Z"><i class="separator_f9f2ca" aria-hidden="true"> — </i>Today at 9:35 AM</time></span><span> </span></div></div>',
+                            kind: { type: "threadCreated", threadName: "release planning" },
+                            children: [],
+                            originalElement: IGNORE,
+                        },
+                    ]);
+                },
+            },
+            {
+                name: "parse cozy-bot.html",
+                fn: async () => {
+                    deepEqual(this.parser.parseMessages(await this.loadTestFile("cozy-bot.html")), [
+                        {
+                            id: "1324000000000000010",
+                            author: "Deploy Bot",
+                            authorId: "1180000000000000001",
+                            avatarUrl:
+                                "https://cdn.discordapp.com/avatars/1180000000000000001/7d3f2c1b0a9e8d7c6b5a4f3e2d1c0b9a.webp?size=80",
+                            roleColor: "rgb(52, 152, 219)",
+                            isBot: true,
+                            timestamp: 1735632750609,
+                            content: "Build 1432 deployed to production",
+                            htmlContent:
+                                '<div id="message-content-1324000000000000010" class="markup_f8f345 messageContent_f9f2ca"><span>Build 1432 deployed to production</span></div>',
+                            children: [],
+                            originalElement: IGNORE,
+                        },
+                    ]);
+                },
+            },
+            {
+                name: "parse compact-bot.html",
+                fn: async () => {
+                    deepEqual(this.parser.parseMessages(await this.loadTestFile("compact-bot.html")), [
+                        {
+                            id: "1324000000000000010",
+                            author: "Deploy Bot",
+                            authorId: "1180000000000000001",
+                            avatarUrl:
+                                "https://cdn.discordapp.com/avatars/1180000000000000001/7d3f2c1b0a9e8d7c6b5a4f3e2d1c0b9a.webp?size=32",
+                            roleColor: "rgb(52, 152, 219)",
+                            isBot: true,
+                            timestamp: 1735632750609,
+                            content: "Build 1432 deployed to production",
+                            htmlContent:
+                                '<div id="message-content-1324000000000000010" class="markup_f8f345 messageContent_f9f2ca"><span>Build 1432 deployed to production</span></div>',
+                            children: [],
+                            originalElement: IGNORE,
+                        },
+                    ]);
+                },
+            },
+            {
+                name: "parse cozy-edited.html",
+                fn: async () => {
+                    deepEqual(this.parser.parseMessages(await this.loadTestFile("cozy-edited.html")), [
+                        {
+                            id: "1324000000000000011",
+                            author: "electroly",
+                            authorId: "459533810153947156",
+                            avatarUrl:
+                                "https://cdn.discordapp.com/avatars/459533810153947156/1397484517a7efc69a0a5600571b5e9e.webp?size=80",
+                            roleColor: "rgb(233, 30, 99)",
+                            timestamp: 1735632750609,
+                            content: "see you at 5pm",
+                            htmlContent:
+                                '<div id="message-content-1324000000000000011" class="markup_f8f345 messageContent_f9f2ca"><span>see you at 5pm</span></div>',
+                            isEdited: true,
+                            editedAt: 1735633202114,
+                            children: [],
+                            originalElement: IGNORE,
+                        },
+                    ]);
+                },
+            },
+            {
+                name: "parse compact-edited.html",
+                fn: async () => {
+                    deepEqual(this.parser.parseMessages(await this.loadTestFile("compact-edited.html")), [
+                        {
+                            id: "1324000000000000011",
+                            author: "electroly",
+                            authorId: "459533810153947156",
+                            avatarUrl:
+                                "https://cdn.discordapp.com/avatars/459533810153947156/1397484517a7efc69a0a5600571b5e9e.webp?size=32",
+                            roleColor: "rgb(233, 30, 99)",
+                            timestamp: 1735632750609,
+                            content: "see you at 5pm",
+                            htmlContent:
+                                '<div id="message-content-1324000000000000011" class="markup_f8f345 messageContent_f9f2ca"><span>see you at 5pm</span></div>',
+                            isEdited: true,
+                            editedAt: 1735633202114,
+                            children: [],
+                            originalElement: IGNORE,
+                        },
+                    ]);
+                },
+            },
+            {
+                name: "parse cozy-mention.html",
+                fn: async () => {
+                    deepEqual(this.parser.parseMessages(await this.loadTestFile("cozy-mention.html")), [
+                        {
+                            id: "1323564429408997426",
+                            author: "electroly",
+                            authorId: "459533810153947156",
+                            avatarUrl:
+                                "https://cdn.discordapp.com/avatars/459533810153947156/1397484517a7efc69a0a5600571b5e9e.webp?size=80",
+                            roleColor: "rgb(233, 30, 99)",
+                            timestamp: 1735632750609,
+                            content: "@Gizmo that's not what @Wumpus said, @everyone",
+                            htmlContent:
+                                '<div id="message-content-1323564429408997426" class="markup_f8f345 messageContent_f9f2ca"><span class="mention wrapper_f61d60 interactive" aria-expanded="false" tabindex="0" role="button">@Gizmo</span><span> that\'s not what </span><span class="mention wrapper_f61d60 interactive" aria-expanded="false" tabindex="0" role="button">@Wumpus</span><span> said, </span><span class="mention wrapper_f61d60" aria-expanded="false" tabindex="0" role="button">@everyone</span></div>',
+                            mentions: ["Gizmo", "Wumpus"],
+                            children: [],
+                            originalElement: IGNORE,
+                        },
+                    ]);
+                },
+            },
+            {
+                name: "parse compact-mention.html",
+                fn: async () => {
+                    deepEqual(this.parser.parseMessages(await this.loadTestFile("compact-mention.html")), [
+                        {
+                            id: "1323564429408997426",
+                            author: "electroly",
+                            authorId: "459533810153947156",
+                            avatarUrl:
+                                "https://cdn.discordapp.com/avatars/459533810153947156/1397484517a7efc69a0a5600571b5e9e.webp?size=32",
+                            roleColor: "rgb(233, 30, 99)",
+                            timestamp: 1735632750609,
+                            content: "@Gizmo that's not what @Wumpus said, @everyone",
+                            htmlContent:
+                                '<div id="message-content-1323564429408997426" class="markup_f8f345 messageContent_f9f2ca"><span class="mention wrapper_f61d60 interactive" aria-expanded="false" tabindex="0" role="button">@Gizmo</span><span> that\'s not what </span><span class="mention wrapper_f61d60 interactive" aria-expanded="false" tabindex="0" role="button">@Wumpus</span><span> said, </span><span class="mention wrapper_f61d60" aria-expanded="false" tabindex="0" role="button">@everyone</span></div>',
+                            mentions: ["Gizmo", "Wumpus"],
+                            children: [],
+                            originalElement: IGNORE,
+                        },
+                    ]);
+                },
+            },
+            {
+                name: "parse links to messages in the same channel",
+                fn: async () => {
+                    // The fixture links to a message in this channel and to one in another channel
+                    for (const file of ["cozy-message-link.html", "compact-message-link.html"]) {
+                        const [message] = this.parser.parseMessages(await this.loadTestFile(file));
+                        deepEqual(message.linkedMessageIds, ["1323564410949537833"]);
+                    }
+                },
+            },
+            {
+                name: "parse a block quote the message starts with",
+                fn: async () => {
+                    for (const file of ["cozy-quote.html", "compact-quote.html"]) {
+                        const [message] = this.parser.parseMessages(await this.loadTestFile(file));
+                        assertEqual(message.quotedText, "does the cache survive a reload?");
+                        assertEqual(message.linkedMessageIds, undefined);
+                    }
+                },
+            },
+            {
+                name: "a block quote after other text is not a quote reply",
+                fn: async () => {
+                    const container = await this.loadTestFile("cozy-quote.html");
+                    const contentEl = container.querySelector('[id^="message-content-"]')!;
+                    contentEl.insertBefore(document.createTextNode("as asked: "), contentEl.firstChild);
+                    const [message] = this.parser.parseMessages(container);
+                    assertEqual(message.quotedText, undefined);
+                },
+            },
+            {
+                name: "parse cache reuses unchanged messages",
+                fn: async () => {
+                    const parser = new MessageParser();
+                    const container = await this.loadTestFile("cozy-double-post.html");
+                    const first = parser.parseMessages(container);
+                    const second = parser.parseMessages(container);
+                    deepEqual(
+                        second,
+                        first.map((msg) => ({ ...msg, originalElement: IGNORE })),
+                    );
+                    const stats = parser.getCacheStats();
+                    assertEqual(stats.lastHits, first.length);
+                    assertEqual(stats.lastMisses, 0);
+                    assertEqual(stats.misses, first.length);
+                },
+            },
+            {
+                name: "parse cache re-parses changed messages",
+                fn: async () => {
+                    const parser = new MessageParser();
+                    const container = await this.loadTestFile("cozy-double-post.html");
+                    const first = parser.parseMessages(container);
+                    const contentEl = container.querySelector(`#message-content-${first[1].id}`)!;
+                    contentEl.innerHTML = "<span>changed</span>";
+
+                    const second = parser.parseMessages(container);
+                    assertEqual(second[1].content, "changed");
+                    assertEqual(second[0].content, first[0].content);
+                    assertEqual(parser.getCacheStats().lastHits, 1);
+                    assertEqual(parser.getCacheStats().lastMisses, 1);
+                },
+            },
+            {
+                name: "parse cache hands out copies",
+                fn: async () => {
+                    const parser = new MessageParser();
+                    const container = await this.loadTestFile("cozy-double-post.html");
+                    const first = parser.parseMessages(container);
+                    first[1].parentId = first[0].id;
+                    first[0].children!.push(first[1]);
+
+                    const second = parser.parseMessages(container);
+                    assertEqual(second[1].parentId, undefined);
+                    deepEqual(second[0].children, []);
+                    assertEqual(second[0] === first[0], false);
+                },
+            },
         ];
     }
 }
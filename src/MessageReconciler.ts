@@ -0,0 +1,125 @@
+import { MessageInfo } from "./MessageInfo";
+import { ThreadloafState } from "./ThreadloafState";
+
+// A message in the flattened thread, with how deep it is nested
+export interface MessageRow {
+    message: MessageInfo;
+    depth: number;
+}
+
+// Builds the element for a message; only called when the message is new or its signature changed
+export interface MessageElementFactory {
+    // Everything the element's content depends on, so equal signatures mean the element can be kept
+    getSignature(message: MessageInfo): string;
+    createElement(message: MessageInfo): HTMLElement;
+    // Cheap in-place updates for details left out of the signature
+    updateElement(element: HTMLElement, message: MessageInfo): void;
+}
+
+interface RenderedRow {
+    message: MessageInfo;
+    signature: string;
+    layout: string; // The depth and indent settings the row was laid out for
+    rowEl: HTMLElement;
+    element: HTMLElement;
+}
+
+/**
+ * Keeps the thread view's rows in sync with the flattened message tree, keyed by message ID.
+ * Messages whose signature hasn't changed keep their existing element, so hover and
+ * selection survive re-renders. Changed messages get a new element, and rows that are
+ * no longer given are removed and forgotten.
+ */
+export class MessageReconciler {
+    private state: ThreadloafState;
+    private rendered = new Map<string, RenderedRow>();
+
+    constructor(state: ThreadloafState) {
+        this.state = state;
+    }
+
+    // Make the children of threadEl match the rows, touching only the elements that changed
+    public reconcile(threadEl: HTMLElement, rows: MessageRow[], factory: MessageElementFactory): void {
+        const seenIds = new Set<string>();
+
+        rows.forEach((row, index) => {
+            seenIds.add(row.message.id);
+            const rendered = this.reconcileRow(row, factory);
+
+            // Only touch the DOM if the row isn't already in the right spot
+            const current = threadEl.children[index];
+            if (current !== rendered.rowEl) {
+                threadEl.insertBefore(rendered.rowEl, current || null);
+            }
+        });
+
+        // Whatever is left over is no longer shown
+        while (threadEl.children.length > rows.length) {
+            threadEl.lastElementChild!.remove();
+        }
+        for (const id of Array.from(this.rendered.keys())) {
+            if (!seenIds.has(id)) {
+                this.rendered.delete(id);
+            }
+        }
+    }
+
+    private reconcileRow(row: MessageRow, factory: MessageElementFactory): RenderedRow {
+        const { message, depth } = row;
+        const signature = factory.getSignature(message);
+        let rendered = this.rendered.get(message.id);
+
+        if (!rendered) {
+            const rowEl = document.createElement("div");
+            rowEl.classList.add("message-row");
+            const element = factory.createElement(message);
+            rowEl.appendChild(element);
+            rendered = { message, signature, layout: "", rowEl, element };
+            this.rendered.set(message.id, rendered);
+        } else if (rendered.signature !== signature) {
+            const element = factory.createElement(message);
+            rendered.element.replaceWith(element);
+            rendered.element = element;
+            rendered.message = message;
+            rendered.signature = signature;
+        } else {
+            // The element's handlers still hold the message it was built from, so keep that pointing
+            // at Discord's current element for the message
+            rendered.message.originalElement = message.originalElement;
+            factory.updateElement(rendered.element, message);
+        }
+
+        // Indent settings can change while the thread is open, so they're part of what the layout depends on
+        const { maxIndent, firstLevelIndent, maxThreadlineDepth } = this.state.settings;
+        const layout = [depth, maxIndent, firstLevelIndent, maxThreadlineDepth].join("/");
+        rendered.element.classList.toggle("root-thread", depth === 0);
+        rendered.element.classList.toggle("no-threadline", depth > maxThreadlineDepth);
+        if (rendered.layout !== layout) {
+            this.layoutRow(rendered.rowEl, depth);
+            rendered.layout = layout;
+        }
+
+        return rendered;
+    }
+
+    // Indent the row and draw the threadline of every ancestor it sits under
+    private layoutRow(rowEl: HTMLElement, depth: number): void {
+        rowEl.querySelectorAll(":scope > .threadline").forEach((line) => line.remove());
+        rowEl.style.paddingLeft = `${this.getIndent(depth)}px`;
+
+        for (let level = 1; level <= Math.min(depth, this.state.settings.maxThreadlineDepth); level++) {
+            const line = document.createElement("span");
+            line.classList.add("threadline");
+            line.style.left = `${this.getIndent(level)}px`;
+            rowEl.insertBefore(line, rowEl.firstChild);
+        }
+    }
+
+    // Indents shrink with depth so deep threads don't run off the side
+    private getIndent(level: number): number {
+        const { maxIndent, firstLevelIndent } = this.state.settings;
+        if (firstLevelIndent >= maxIndent) return maxIndent;
+        const decayRate = -Math.log(1 - firstLevelIndent / maxIndent);
+        return Math.round(maxIndent * (1 - Math.exp(-decayRate * level)));
+    }
+}
@@ -0,0 +1,109 @@
+import { assertEqual, createElementFactory, deepEqual, Test } from "./test_utils";
+import { MessageReconciler, MessageRow } from "./MessageReconciler";
+import { ThreadloafState } from "./ThreadloafState";
+
+export class MessageReconcilerTest {
+    // Create a row for a message at the given depth
+    private row(id: string, depth: number, content: string = id): MessageRow {
+        return { message: { id, author: "alice", timestamp: 0, content, htmlContent: content }, depth };
+    }
+
+    // Reduce the rendered rows to their IDs and how many threadlines each draws
+    private shape(threadEl: HTMLElement): string[] {
+        return Array.from(threadEl.children).map((rowEl) => {
+            const id = (rowEl.querySelector("[data-msg-id]") as HTMLElement).dataset.msgId;
+            return `${id}:${rowEl.querySelectorAll(".threadline").length}`;
+        });
+    }
+
+    private findElement(threadEl: HTMLElement, id: string): HTMLElement {
+        return threadEl.querySelector(`[data-msg-id="${id}"]`) as HTMLElement;
+    }
+
+    async getTests(): Promise<Test[]> {
+        return [
+            {
+                name: "renders rows indented with a threadline per ancestor",
+                fn: () => {
+                    const threadEl = document.createElement("div");
+                    new MessageReconciler(new ThreadloafState()).reconcile(
+                        threadEl,
+                        [this.row("A", 0), this.row("B", 1), this.row("C", 2), this.row("D", 0)],
+                        createElementFactory(),
+                    );
+                    deepEqual(this.shape(threadEl), ["A:0", "B:1", "C:2", "D:0"]);
+                    assertEqual(this.findElement(threadEl, "A").classList.contains("root-thread"), true);
+                    assertEqual(this.findElement(threadEl, "B").classList.contains("root-thread"), false);
+                    assertEqual((threadEl.children[0] as HTMLElement).style.paddingLeft, "0px");
+                    assertEqual((threadEl.children[1] as HTMLElement).style.paddingLeft, "40px");
+                },
+            },
+            {
+                name: "keeps the elements of unchanged messages and rebuilds changed ones",
+                fn: () => {
+                    const threadEl = document.createElement("div");
+                    const reconciler = new MessageReconciler(new ThreadloafState());
+                    const factory = createElementFactory();
+                    reconciler.reconcile(threadEl, [this.row("A", 0), this.row("B", 1)], factory);
+                    const a = this.findElement(threadEl, "A");
+                    const b = this.findElement(threadEl, "B");
+
+                    reconciler.reconcile(threadEl, [this.row("A", 0), this.row("B", 1, "edited")], factory);
+                    assertEqual(this.findElement(threadEl, "A"), a);
+                    assertEqual(this.findElement(threadEl, "B") === b, false);
+                    assertEqual(this.findElement(threadEl, "B").textContent, "edited");
+                    assertEqual(factory.created, 3);
+                },
+            },
+            {
+                name: "moves reparented messages and removes missing ones",
+                fn: () => {
+                    const threadEl = document.createElement("div");
+                    const reconciler = new MessageReconciler(new ThreadloafState());
+                    const factory = createElementFactory();
+                    reconciler.reconcile(
+                        threadEl,
+                        [this.row("A", 0), this.row("B", 1), this.row("C", 1), this.row("D", 0)],
+                        factory,
+                    );
+                    const c = this.findElement(threadEl, "C");
+
+                    reconciler.reconcile(threadEl, [this.row("A", 0), this.row("D", 0), this.row("C", 1)], factory);
+                    deepEqual(this.shape(threadEl), ["A:0", "D:0", "C:1"]);
+                    assertEqual(this.findElement(threadEl, "C"), c);
+                    assertEqual(factory.created, 4);
+                },
+            },
+            {
+                name: "redraws threadlines when a message changes depth",
+                fn: () => {
+                    const threadEl = document.createElement("div");
+                    const reconciler = new MessageReconciler(new ThreadloafState());
+                    const factory = createElementFactory();
+                    reconciler.reconcile(threadEl, [this.row("A", 0), this.row("B", 0)], factory);
+                    reconciler.reconcile(threadEl, [this.row("A", 0), this.row("B", 1)], factory);
+                    deepEqual(this.shape(threadEl), ["A:0", "B:1"]);
+                    assertEqual(this.findElement(threadEl, "B").classList.contains("root-thread"), false);
+                },
+            },
+            {
+                name: "lays rows out again when the indent settings change",
+                fn: () => {
+                    const threadEl = document.createElement("div");
+                    const state = new ThreadloafState();
+                    const reconciler = new MessageReconciler(state);
+                    const factory = createElementFactory();
+                    const rows = [this.row("A", 0), this.row("B", 1), this.row("C", 2)];
+                    reconciler.reconcile(threadEl, rows, factory);
+
+                    state.settings = { ...state.settings, firstLevelIndent: 20, maxThreadlineDepth: 1 };
+                    reconciler.reconcile(threadEl, rows, factory);
+                    assertEqual((threadEl.children[1] as HTMLElement).style.paddingLeft, "20px");
+                    deepEqual(this.shape(threadEl), ["A:0", "B:1", "C:1"]);
+                    assertEqual(this.findElement(threadEl, "C").classList.contains("no-threadline"), true);
+                    assertEqual(factory.created, 3);
+                },
+            },
+        ];
+    }
+}
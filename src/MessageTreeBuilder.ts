@@ -1,20 +1,54 @@
 import { MessageInfo } from "./MessageInfo";
+import { createDefaultSettings, ThreadloafSettings } from "./ThreadloafSettings";
+import {
+    ExplicitReplyRule,
+    MentionRule,
+    MessageLinkRule,
+    QuoteRule,
+    SameAuthorRule,
+    SystemEventRule,
+    ThreadingContext,
+    ThreadingRule,
+} from "./ThreadingRules";
 
 /**
  * Constructs hierarchical message trees from flat message lists.
  * Responsible for analyzing message relationships (replies, parents),
  * building a tree structure that represents message threading,
  * and handling missing messages in the conversation chain.
+ * Placement is decided by an ordered pipeline of threading rules.
  */
 export class MessageTreeBuilder {
+    private rules: ThreadingRule[];
+
+    constructor(rules: ThreadingRule[] = MessageTreeBuilder.createDefaultRules()) {
+        this.rules = rules;
+    }
+
+    // The built-in rules, in evaluation order
+    public static createDefaultRules(): ThreadingRule[] {
+        return [
+            new SystemEventRule(),
+            new ExplicitReplyRule(),
+            new MessageLinkRule(),
+            new QuoteRule(),
+            new MentionRule(),
+            new SameAuthorRule(),
+        ];
+    }
+
     // Build a hierarchical message tree
-    public buildMessageTree(messages: MessageInfo[]): MessageInfo[] {
+    public buildMessageTree(
+        messages: MessageInfo[],
+        settings: ThreadloafSettings = createDefaultSettings(),
+    ): MessageInfo[] {
         // Sort messages chronologically for processing
         const sortedMessages = [...messages].sort((a, b) => a.timestamp - b.timestamp);
-        const THREE_MINUTES = 3 * 60 * 1000; // milliseconds
+        const enabledRules = this.rules.filter((rule) => settings.enabledRules[rule.id]);
 
         // Initialize message map and root messages array
         const idToMessage = new Map<string, MessageInfo>();
+        const idToGhost = new Map<string, MessageInfo>();
         const rootMessages: MessageInfo[] = [];
 
         // First pass: Initialize all messages in the map
@@ -23,46 +57,82 @@ export class MessageTreeBuilder {
             idToMessage.set(message.id, message);
         }
 
-        // Second pass: Build the tree
+        const context: ThreadingContext = {
+            sortedMessages,
+            index: 0,
+            settings,
+            findMessage: (id) => idToMessage.get(id) ?? idToGhost.get(id),
+            getGhostParent: (parentId, reply) => {
+                let ghost = idToGhost.get(parentId);
+                if (!ghost) {
+                    // Later replies to the same missing parent are grouped under the same placeholder
+                    ghost = this.createGhostMessage(parentId, reply);
+                    idToGhost.set(parentId, ghost);
+                    rootMessages.push(ghost);
+                }
+                return ghost;
+            },
+        };
+
+        // Second pass: Build the tree, letting the first rule that claims a message place it
         for (let i = 0; i < sortedMessages.length; i++) {
             const message = sortedMessages[i];
-            const previousMessage = i > 0 ? sortedMessages[i - 1] : null;
+            context.index = i;
 
-            // Rule 1: Honor explicit replies
-            if (message.parentId) {
-                const parent = idToMessage.get(message.parentId);
-                if (parent) {
-                    parent.children?.push(message);
-                } else {
-                    // Skip messages whose parents are not loaded
-                    continue;
-                }
-                continue;
-            }
+            let placed = false;
+            for (const rule of enabledRules) {
+                const claim = rule.claimParent(message, context);
+                if (!claim) continue;
 
-            // For non-explicit replies, check previous message
-            if (previousMessage && message.timestamp - previousMessage.timestamp <= THREE_MINUTES) {
-                if (message.author === previousMessage.author) {
-                    // Rule 2: Same author within 3 minutes - use same parent as previous message
-                    if (previousMessage.parentId) {
-                        const parent = idToMessage.get(previousMessage.parentId);
-                        if (parent) {
-                            parent.children?.push(message);
-                            message.parentId = previousMessage.parentId;
-                            continue;
-                        }
-                    } else {
-                        // If previous message is a root message, this one should be too
-                        rootMessages.push(message);
-                        continue;
-                    }
+                if (claim.parent) {
+                    claim.parent.children?.push(message);
+                } else {
+                    rootMessages.push(message);
                 }
+                message.parentId = claim.parent?.id;
+                message.placement = { ruleId: rule.id, reason: claim.reason, isInferred: rule.isInference };
+                placed = true;
+                break;
             }
 
             // If no rules applied, this is a root message
-            rootMessages.push(message);
+            if (!placed) {
+                rootMessages.push(message);
+                message.parentId = undefined;
+                message.placement = {
+                    ruleId: "root",
+                    reason: "Not a reply, so it starts a new thread",
+                    isInferred: false,
+                };
+            }
         }
 
-        return rootMessages;
+        return settings.pruneChildlessTombstones ? this.pruneChildlessTombstones(rootMessages) : rootMessages;
+    }
+
+    // Drop tombstones that nothing replies to, working bottom-up so that chains of them go away too
+    private pruneChildlessTombstones(messages: MessageInfo[]): MessageInfo[] {
+        return messages.filter((message) => {
+            message.children = this.pruneChildlessTombstones(message.children || []);
+            return !message.isDeleted || message.children.length > 0;
+        });
+    }
+
+    // Create a placeholder for a parent message that hasn't been loaded, using the reply preview
+    // Discord shows above the first reply that references it
+    private createGhostMessage(parentId: string, firstReply: MessageInfo): MessageInfo {
+        const preview = firstReply.parentPreview;
+        const temp = document.createElement("div");
+        temp.innerHTML = preview?.content || "";
+
+        return {
+            id: parentId,
+            author: preview?.author || "Unknown",
+            timestamp: firstReply.timestamp,
+            content: temp.textContent?.replace(/\s+/g, " ").trim() || "",
+            htmlContent: preview?.content || "",
+            children: [],
+            isGhost: true,
+        };
     }
 }
@@ -0,0 +1,367 @@
+import { createMessage, deepEqual, Test } from "./test_utils";
+import { MessageInfo } from "./MessageInfo";
+import { MessageTreeBuilder } from "./MessageTreeBuilder";
+import { createDefaultSettings } from "./ThreadloafSettings";
+
+type TreeShape = { id: string; ghost?: boolean; children: TreeShape[] };
+
+export class MessageTreeBuilderTest {
+    private builder: MessageTreeBuilder;
+
+    constructor() {
+        this.builder = new MessageTreeBuilder();
+    }
+
+    // Reduce a built tree to just IDs so that tests can compare structure
+    private shape(messages: MessageInfo[]): TreeShape[] {
+        return messages.map((msg) => ({
+            id: msg.id,
+            ghost: msg.isGhost,
+            children: this.shape(msg.children || []),
+        }));
+    }
+
+    async getTests(): Promise<Test[]> {
+        return [
+            {
+                name: "multi-line message from same author shares the explicit parent",
+                fn: () => {
+                    const roots = this.builder.buildMessageTree([
+                        createMessage("X", "xavier", 0),
+                        createMessage("A1", "alice", 10, { parentId: "X" }),
+                        createMessage("A2", "alice", 12),
+                        createMessage("A3", "alice", 14),
+                    ]);
+                    deepEqual(this.shape(roots), [
+                        {
+                            id: "X",
+                            children: [
+                                { id: "A1", children: [] },
+                                { id: "A2", children: [] },
+                                { id: "A3", children: [] },
+                            ],
+                        },
+                    ]);
+                    deepEqual(
+                        roots[0].children?.map((msg) => msg.placement?.ruleId),
+                        ["explicitReply", "sameAuthor", "sameAuthor"],
+                    );
+                },
+            },
+            {
+                name: "back-and-forth without replies stays at the root",
+                fn: () => {
+                    const roots = this.builder.buildMessageTree([
+                        createMessage("A1", "alice", 0),
+                        createMessage("B1", "bob", 1),
+                        createMessage("A2", "alice", 2),
+                        createMessage("B2", "bob", 3),
+                    ]);
+                    deepEqual(
+                        roots.map((msg) => msg.id),
+                        ["A1", "B1", "A2", "B2"],
+                    );
+                    deepEqual(roots[0].placement?.ruleId, "root");
+                },
+            },
+            {
+                name: "different users with the same display name are not merged",
+                fn: () => {
+                    const roots = this.builder.buildMessageTree([
+                        createMessage("X", "xavier", 0),
+                        createMessage("A1", "alex", 10, { parentId: "X", authorId: "1" }),
+                        createMessage("A2", "alex", 11, { authorId: "2" }),
+                    ]);
+                    deepEqual(this.shape(roots), [
+                        { id: "X", children: [{ id: "A1", children: [] }] },
+                        { id: "A2", children: [] },
+                    ]);
+                },
+            },
+            {
+                name: "same-author window is configurable",
+                fn: () => {
+                    const settings = createDefaultSettings();
+                    settings.sameAuthorWindowMinutes = 1;
+                    const roots = this.builder.buildMessageTree(
+                        [
+                            createMessage("X", "xavier", 0),
+                            createMessage("A1", "alice", 10, { parentId: "X" }),
+                            createMessage("A2", "alice", 12),
+                        ],
+                        settings,
+                    );
+                    deepEqual(this.shape(roots), [
+                        { id: "X", children: [{ id: "A1", children: [] }] },
+                        { id: "A2", children: [] },
+                    ]);
+                },
+            },
+            {
+                name: "disabled rules are skipped",
+                fn: () => {
+                    const settings = createDefaultSettings();
+                    settings.enabledRules.sameAuthor = false;
+                    const roots = this.builder.buildMessageTree(
+                        [
+                            createMessage("X", "xavier", 0),
+                            createMessage("A1", "alice", 10, { parentId: "X" }),
+                            createMessage("A2", "alice", 11),
+                        ],
+                        settings,
+                    );
+                    deepEqual(this.shape(roots), [
+                        { id: "X", children: [{ id: "A1", children: [] }] },
+                        { id: "A2", children: [] },
+                    ]);
+                },
+            },
+            {
+                name: "leading @mention is ignored unless the mention rule is enabled",
+                fn: () => {
+                    const roots = this.builder.buildMessageTree([
+                        createMessage("A1", "alice", 0),
+                        createMessage("B1", "bob", 10, { content: "@alice that's wrong", mentions: ["alice"] }),
+                    ]);
+                    deepEqual(
+                        roots.map((msg) => msg.id),
+                        ["A1", "B1"],
+                    );
+                },
+            },
+            {
+                name: "leading @mention attaches to that user's latest message",
+                fn: () => {
+                    const settings = createDefaultSettings();
+                    settings.enabledRules.mention = true;
+                    const roots = this.builder.buildMessageTree(
+                        [
+                            createMessage("A1", "alice", 0),
+                            createMessage("A2", "alice", 5),
+                            createMessage("C1", "carol", 6),
+                            createMessage("B1", "bob", 10, { content: "@alice that's wrong", mentions: ["alice"] }),
+                        ],
+                        settings,
+                    );
+                    deepEqual(this.shape(roots), [
+                        { id: "A1", children: [] },
+                        { id: "A2", children: [{ id: "B1", children: [] }] },
+                        { id: "C1", children: [] },
+                    ]);
+                    deepEqual(roots[1].children?.[0].placement?.isInferred, true);
+                },
+            },
+            {
+                name: "@mention outside the window or mid-sentence is not a reply",
+                fn: () => {
+                    const settings = createDefaultSettings();
+                    settings.enabledRules.mention = true;
+                    settings.mentionWindowMinutes = 5;
+                    const roots = this.builder.buildMessageTree(
+                        [
+                            createMessage("A1", "alice", 0),
+                            createMessage("B1", "bob", 10, { content: "@alice that's wrong", mentions: ["alice"] }),
+                            createMessage("C1", "carol", 11, { content: "ask @bob about it", mentions: ["bob"] }),
+                        ],
+                        settings,
+                    );
+                    deepEqual(
+                        roots.map((msg) => msg.id),
+                        ["A1", "B1", "C1"],
+                    );
+                },
+            },
+            {
+                name: "message link attaches to the linked message when loaded",
+                fn: () => {
+                    const settings = createDefaultSettings();
+                    settings.enabledRules.messageLink = true;
+                    const roots = this.builder.buildMessageTree(
+                        [
+                            createMessage("A1", "alice", 0),
+                            createMessage("C1", "carol", 5),
+                            createMessage("B1", "bob", 10, { linkedMessageIds: ["A1"] }),
+                            createMessage("B2", "dave", 11, { linkedMessageIds: ["NOT_LOADED"] }),
+                        ],
+                        settings,
+                    );
+                    deepEqual(this.shape(roots), [
+                        { id: "A1", children: [{ id: "B1", children: [] }] },
+                        { id: "C1", children: [] },
+                        { id: "B2", children: [] },
+                    ]);
+                    deepEqual(roots[0].children?.[0].placement?.ruleId, "messageLink");
+                },
+            },
+            {
+                name: "quote block attaches to the quoted message",
+                fn: () => {
+                    const settings = createDefaultSettings();
+                    settings.enabledRules.quote = true;
+                    const roots = this.builder.buildMessageTree(
+                        [
+                            createMessage("A1", "alice", 0, { content: "Pineapple belongs on pizza" }),
+                            createMessage("C1", "carol", 5, { content: "unrelated" }),
+                            createMessage("B1", "bob", 10, {
+                                content: "pineapple belongs on pizza no it does not",
+                                quotedText: "pineapple  belongs on pizza",
+                            }),
+                            createMessage("D1", "dave", 12, {
+                                content: "Pineapple belongs on pizza agreed",
+                                quotedText: "Pineapple belongs on pizza",
+                            }),
+                        ],
+                        settings,
+                    );
+                    deepEqual(this.shape(roots), [
+                        {
+                            id: "A1",
+                            children: [
+                                { id: "B1", children: [] },
+                                { id: "D1", children: [] },
+                            ],
+                        },
+                        { id: "C1", children: [] },
+                    ]);
+                    deepEqual(roots[0].children?.[0].placement?.ruleId, "quote");
+                },
+            },
+            {
+                name: "reply to an unloaded parent gets a ghost parent",
+                fn: () => {
+                    const roots = this.builder.buildMessageTree([
+                        createMessage("B1", "bob", 0, {
+                            parentId: "X",
+                            parentPreview: { author: "alice", content: "<span>hello   world</span>" },
+                        }),
+                    ]);
+                    deepEqual(this.shape(roots), [{ id: "X", ghost: true, children: [{ id: "B1", children: [] }] }]);
+                    deepEqual(roots[0].author, "alice");
+                    deepEqual(roots[0].content, "hello world");
+                    deepEqual(roots[0].htmlContent, "<span>hello   world</span>");
+                },
+            },
+            {
+                name: "replies to the same unloaded parent share one ghost",
+                fn: () => {
+                    const preview = { author: "alice", content: "<span>X</span>" };
+                    const roots = this.builder.buildMessageTree([
+                        createMessage("B1", "bob", 0, { parentId: "X", parentPreview: preview }),
+                        createMessage("C1", "carol", 10, {}),
+                        createMessage("D1", "dave", 20, { parentId: "X", parentPreview: preview }),
+                    ]);
+                    deepEqual(this.shape(roots), [
+                        {
+                            id: "X",
+                            ghost: true,
+                            children: [
+                                { id: "B1", children: [] },
+                                { id: "D1", children: [] },
+                            ],
+                        },
+                        { id: "C1", children: [] },
+                    ]);
+                },
+            },
+            {
+                name: "same-author follow-up joins the ghost parent",
+                fn: () => {
+                    const roots = this.builder.buildMessageTree([
+                        createMessage("B1", "bob", 0, {
+                            parentId: "X",
+                            parentPreview: { author: "alice", content: "<span>X</span>" },
+                        }),
+                        createMessage("B2", "bob", 1),
+                    ]);
+                    deepEqual(this.shape(roots), [
+                        {
+                            id: "X",
+                            ghost: true,
+                            children: [
+                                { id: "B1", children: [] },
+                                { id: "B2", children: [] },
+                            ],
+                        },
+                    ]);
+                },
+            },
+            {
+                name: "ghost is replaced by the real parent once loaded",
+                fn: () => {
+                    const roots = this.builder.buildMessageTree([
+                        createMessage("X", "alice", 0),
+                        createMessage("B1", "bob", 10, {
+                            parentId: "X",
+                            parentPreview: { author: "alice", content: "<span>X</span>" },
+                        }),
+                    ]);
+                    deepEqual(this.shape(roots), [{ id: "X", children: [{ id: "B1", children: [] }] }]);
+                },
+            },
+            {
+                name: "pin notice goes under the pinned message",
+                fn: () => {
+                    const roots = this.builder.buildMessageTree([
+                        createMessage("A1", "alice", 0),
+                        createMessage("B1", "bob", 1),
+                        createMessage("P1", "bob", 2, { kind: { type: "pin", pinnedMessageId: "A1" } }),
+                        createMessage("P2", "bob", 3, { kind: { type: "pin", pinnedMessageId: "NOT_LOADED" } }),
+                    ]);
+                    deepEqual(this.shape(roots), [
+                        { id: "A1", children: [{ id: "P1", children: [] }] },
+                        { id: "B1", children: [] },
+                        { id: "P2", children: [] },
+                    ]);
+                    deepEqual(roots[0].children?.[0].placement?.ruleId, "systemEvent");
+                },
+            },
+            {
+                name: "system events don't join or continue same-author runs",
+                fn: () => {
+                    const roots = this.builder.buildMessageTree([
+                        createMessage("X", "xavier", 0),
+                        createMessage("A1", "alice", 10, { parentId: "X" }),
+                        createMessage("T1", "alice", 11, { kind: { type: "titleChange", newTitle: "New title" } }),
+                        createMessage("A2", "alice", 12),
+                    ]);
+                    deepEqual(this.shape(roots), [
+                        { id: "X", children: [{ id: "A1", children: [] }] },
+                        { id: "T1", children: [] },
+                        { id: "A2", children: [] },
+                    ]);
+                },
+            },
+            {
+                name: "replies stay attached to a tombstone",
+                fn: () => {
+                    const roots = this.builder.buildMessageTree([
+                        createMessage("A1", "alice", 0, { isDeleted: true }),
+                        createMessage("B1", "bob", 10, { parentId: "A1" }),
+                        createMessage("C1", "carol", 20, { isDeleted: true }),
+                    ]);
+                    deepEqual(this.shape(roots), [
+                        { id: "A1", children: [{ id: "B1", children: [] }] },
+                        { id: "C1", children: [] },
+                    ]);
+                },
+            },
+            {
+                name: "childless tombstones can be pruned",
+                fn: () => {
+                    const settings = createDefaultSettings();
+                    settings.pruneChildlessTombstones = true;
+                    const roots = this.builder.buildMessageTree(
+                        [
+                            createMessage("A1", "alice", 0, { isDeleted: true }),
+                            createMessage("B1", "bob", 10, { parentId: "A1" }),
+                            createMessage("C1", "carol", 20, { isDeleted: true }),
+                            createMessage("D1", "dave", 30, { parentId: "C1", isDeleted: true }),
+                        ],
+                        settings,
+                    );
+                    deepEqual(this.shape(roots), [{ id: "A1", children: [{ id: "B1", children: [] }] }]);
+                },
+            },
+        ];
+    }
+}
@@ -0,0 +1,135 @@
+import { ThreadEvent } from "./ThreadEvents";
+
+// Everything Threadloaf adds to the page has an ID starting with "threadloaf-" or lives inside such an element
+const OWN_ELEMENT_SELECTOR = '[id^="threadloaf-"]';
+const MESSAGE_ITEM_SELECTOR = 'li[id^="chat-messages-"]';
+const MESSAGE_CONTENT_SELECTOR = '[id^="message-content-"]';
+const REACTIONS_SELECTOR = '[class*="reactions_"]';
+const ACCESSORIES_SELECTOR = '[id^="message-accessories-"]'; // Embeds, attachments, polls, and reactions
+
+/**
+ * Turns the raw mutation records from Discord's app into typed thread events.
+ * Mutations that Threadloaf causes itself, in its own container or in the inline
+ * styles it sets on Discord's elements, are left out so they don't trigger
+ * re-renders of their own.
+ */
+export class MutationClassifier {
+    // Classify a batch of mutations; channel changes are detected by the caller, which knows the channel
+    public classify(mutations: MutationRecord[]): ThreadEvent[] {
+        const addedItems: Element[] = [];
+        const removedIds = new Set<string>();
+        const editedIds = new Set<string>();
+        const reactionIds = new Set<string>();
+        const accessoryIds = new Set<string>();
+
+        for (const mutation of mutations) {
+            if (this.isOwnMutation(mutation)) continue;
+
+            if (mutation.type === "childList") {
+                mutation.addedNodes.forEach((node) => addedItems.push(...this.findMessageItems(node)));
+                mutation.removedNodes.forEach((node) =>
+                    this.findMessageItems(node).forEach((item) => removedIds.add(this.getMessageId(item))),
+                );
+            }
+
+            // Everything else happens inside a single message
+            const messageItem = this.getElement(mutation.target)?.closest(MESSAGE_ITEM_SELECTOR);
+            if (!messageItem) continue;
+
+            if (this.touches(mutation, MESSAGE_CONTENT_SELECTOR)) {
+                editedIds.add(this.getMessageId(messageItem));
+            } else if (this.touches(mutation, REACTIONS_SELECTOR)) {
+                reactionIds.add(this.getMessageId(messageItem));
+            } else if (this.touches(mutation, ACCESSORIES_SELECTOR)) {
+                // Embeds and attachments load late, and poll results change as people vote
+                accessoryIds.add(this.getMessageId(messageItem));
+            }
+        }
+
+        // Discord sometimes replaces a message's element outright; that's an update, not an add and a remove
+        const addedIds = new Set(addedItems.map((item) => this.getMessageId(item)));
+        for (const id of Array.from(addedIds)) {
+            if (removedIds.has(id)) {
+                addedIds.delete(id);
+                removedIds.delete(id);
+                editedIds.add(id);
+            }
+        }
+
+        // New messages that come before a message we already had are older history loaded above it
+        const prependedIds: string[] = [];
+        const appendedIds: string[] = [];
+        addedItems
+            .filter((item) => addedIds.has(this.getMessageId(item)) && item.isConnected)
+            .forEach((item) => {
+                const id = this.getMessageId(item);
+                (this.hasExistingMessageAfter(item, addedIds) ? prependedIds : appendedIds).push(id);
+            });
+
+        const events: ThreadEvent[] = [];
+        const addEvent = (type: Exclude<ThreadEvent["type"], "channelChanged">, ids: Iterable<string>) => {
+            const messageIds = Array.from(new Set(ids));
+            if (messageIds.length > 0) {
+                events.push({ type, messageIds });
+            }
+        };
+        addEvent("messageRemoved", removedIds);
+        addEvent("historyPrepended", prependedIds);
+        addEvent("messageAdded", appendedIds);
+        addEvent("messageEdited", editedIds);
+        addEvent("reactionChanged", reactionIds);
+        addEvent("accessoriesChanged", accessoryIds);
+        return events;
+    }
+
+    // Threadloaf only ever changes inline styles on Discord's elements, and everything else it adds is its own
+    private isOwnMutation(mutation: MutationRecord): boolean {
+        if (mutation.type === "attributes" && mutation.attributeName === "style") {
+            return true;
+        }
+        if (this.getElement(mutation.target)?.closest(OWN_ELEMENT_SELECTOR)) {
+            return true;
+        }
+        if (mutation.type === "childList") {
+            const nodes = [...Array.from(mutation.addedNodes), ...Array.from(mutation.removedNodes)];
+            return (
+                nodes.length > 0 && nodes.every((node) => node instanceof Element && node.matches(OWN_ELEMENT_SELECTOR))
+            );
+        }
+        return false;
+    }
+
+    // Whether the mutation happened inside, or added or removed, an element matching the selector
+    private touches(mutation: MutationRecord, selector: string): boolean {
+        if (this.getElement(mutation.target)?.closest(selector)) {
+            return true;
+        }
+        return [...Array.from(mutation.addedNodes), ...Array.from(mutation.removedNodes)].some(
+            (node) => node instanceof Element && (node.matches(selector) || !!node.querySelector(selector)),
+        );
+    }
+
+    private hasExistingMessageAfter(item: Element, addedIds: Set<string>): boolean {
+        for (let sibling = item.nextElementSibling; sibling; sibling = sibling.nextElementSibling) {
+            if (sibling.matches(MESSAGE_ITEM_SELECTOR) && !addedIds.has(this.getMessageId(sibling))) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    private findMessageItems(node: Node): Element[] {
+        if (!(node instanceof Element)) return [];
+        if (node.matches(MESSAGE_ITEM_SELECTOR)) return [node];
+        return Array.from(node.querySelectorAll(MESSAGE_ITEM_SELECTOR));
+    }
+
+    // List item IDs look like "chat-messages-<channel id>-<message id>"
+    private getMessageId(item: Element): string {
+        return item.id.split("-").pop() || "";
+    }
+
+    private getElement(node: Node): Element | null {
+        return node instanceof Element ? node : node.parentElement;
+    }
+}
@@ -0,0 +1,114 @@
+import { deepEqual, Test } from "./test_utils";
+import { MutationClassifier } from "./MutationClassifier";
+
+export class MutationClassifierTest {
+    private classifier = new MutationClassifier();
+
+    async getTests(): Promise<Test[]> {
+        return [
+            {
+                name: "new messages at the bottom are added, ones above existing messages are history",
+                fn: () => {
+                    const list = this.createList(["2", "3"]);
+                    const events = this.record(list, () => {
+                        list.appendChild(this.createMessage("4"));
+                        list.insertBefore(this.createMessage("1"), list.firstChild);
+                    });
+                    deepEqual(events, [
+                        { type: "historyPrepended", messageIds: ["1"] },
+                        { type: "messageAdded", messageIds: ["4"] },
+                    ]);
+                },
+            },
+            {
+                name: "removed, edited, and re-rendered messages are told apart",
+                fn: () => {
+                    const list = this.createList(["1", "2", "3"]);
+                    const events = this.record(list, () => {
+                        list.querySelector("#chat-messages-9-1")!.remove();
+                        list.querySelector("#message-content-2")!.textContent = "edited";
+                        list.querySelector("#chat-messages-9-3")!.replaceWith(this.createMessage("3"));
+                    });
+                    deepEqual(events, [
+                        { type: "messageRemoved", messageIds: ["1"] },
+                        { type: "messageEdited", messageIds: ["2", "3"] },
+                    ]);
+                },
+            },
+            {
+                name: "reaction changes are reported for their message",
+                fn: () => {
+                    const list = this.createList(["1", "2"]);
+                    const events = this.record(list, () => {
+                        const reactions = document.createElement("div");
+                        reactions.className = "reactions_abc123";
+                        list.querySelector("#chat-messages-9-1")!.appendChild(reactions);
+                        list.querySelector("#chat-messages-9-1 .reactions_abc123")!.setAttribute("aria-label", "1");
+                    });
+                    deepEqual(events, [{ type: "reactionChanged", messageIds: ["1"] }]);
+                },
+            },
+            {
+                name: "changes to embeds, attachments, and polls are reported for their message",
+                fn: () => {
+                    const list = this.createList(["1", "2"]);
+                    const accessories = document.createElement("div");
+                    accessories.id = "message-accessories-2";
+                    list.querySelector("#chat-messages-9-2")!.appendChild(accessories);
+                    const events = this.record(list, () => {
+                        const embed = document.createElement("article");
+                        embed.className = "embedFull_abc123";
+                        accessories.appendChild(embed);
+                        embed.textContent = "12 votes";
+                    });
+                    deepEqual(events, [{ type: "accessoriesChanged", messageIds: ["2"] }]);
+                },
+            },
+            {
+                name: "Threadloaf's own changes are ignored",
+                fn: () => {
+                    const list = this.createList(["1"]);
+                    const container = document.createElement("div");
+                    container.id = "threadloaf-container";
+                    const events = this.record(list, () => {
+                        list.appendChild(container);
+                        container.appendChild(this.createMessage("2"));
+                        list.style.display = "none";
+                        list.querySelector<HTMLElement>("#chat-messages-9-1")!.style.position = "relative";
+                        list.querySelector<HTMLElement>("#chat-messages-9-1")!.classList.add("hovered");
+                    });
+                    deepEqual(events, []);
+                },
+            },
+        ];
+    }
+
+    // Classify whatever the change does to the list
+    private record(list: HTMLElement, change: () => void): unknown[] {
+        const observer = new MutationObserver(() => {});
+        observer.observe(list, { childList: true, subtree: true, characterData: true, attributes: true });
+        change();
+        const mutations = observer.takeRecords();
+        observer.disconnect();
+        const events = this.classifier.classify(mutations);
+        list.remove();
+        return events;
+    }
+
+    private createList(ids: string[]): HTMLElement {
+        const list = document.createElement("ol");
+        ids.forEach((id) => list.appendChild(this.createMessage(id)));
+        document.body.appendChild(list);
+        return list;
+    }
+
+    private createMessage(id: string): HTMLElement {
+        const li = document.createElement("li");
+        li.id = `chat-messages-9-${id}`;
+        const content = document.createElement("div");
+        content.id = `message-content-${id}`;
+        content.textContent = `message ${id}`;
+        li.appendChild(content);
+        return li;
+    }
+}
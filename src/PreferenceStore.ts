@@ -0,0 +1,188 @@
+import { ThreadloafSettings } from "./ThreadloafSettings";
+
+// Display preferences that can be remembered per server and per channel; anything left out falls back
+// to the server's preferences and then to the user's settings
+export interface DisplayPreferences {
+    viewMode?: "thread" | "chat";
+    showSystemMessages?: boolean;
+    pruneChildlessTombstones?: boolean;
+}
+
+// How preferences are kept in storage; servers are keyed by guild ID ("@me" for direct messages)
+interface StoredPreferences {
+    servers: { [guildId: string]: DisplayPreferences };
+    channels: { [channelId: string]: DisplayPreferences };
+}
+
+const PREFERENCES_KEY = "threadloafPreferences";
+const USE_SYNC_KEY = "threadloafUseSync"; // Always in local storage, since it says where the preferences are
+// Channels and servers changed longest ago are forgotten beyond these, so the stored item stays under
+// sync storage's limit of 8 KB per item
+const MAX_CHANNELS = 50;
+const MAX_SERVERS = 15;
+
+/**
+ * Remembers view mode and display preferences per server and per channel in chrome.storage.
+ * Preferences live in local storage unless the user opts into sync storage, which follows
+ * them to their other browsers. Reads are served from memory, so nothing waits on storage
+ * after the initial load; writes go through to storage in the background.
+ */
+export class PreferenceStore {
+    private storage: typeof chrome.storage | null;
+    private preferences: StoredPreferences = { servers: {}, channels: {} };
+    private useSync = false;
+    private changeCount = 0; // Changes picked up by watch(), so a slower read doesn't undo a newer change
+
+    // Without storage (as in tests) preferences are only kept in memory
+    constructor(storage: typeof chrome.storage | null) {
+        this.storage = storage;
+    }
+
+    public async load(): Promise<void> {
+        if (!this.storage) return;
+
+        try {
+            const local = await this.storage.local.get(USE_SYNC_KEY);
+            this.useSync = local[USE_SYNC_KEY] === true;
+            await this.loadPreferences();
+        } catch (error) {
+            console.error("Threadloaf: Error loading preferences:", error);
+        }
+    }
+
+    // Pick up changes made in other tabs, including the options page moving the preferences to or from sync
+    // storage; returns a function that stops listening
+    public watch(): () => void {
+        if (!this.storage) return () => {};
+
+        const handleChanged = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+            if (areaName === "local" && changes[USE_SYNC_KEY]) {
+                const useSync = changes[USE_SYNC_KEY].newValue === true;
+                if (useSync !== this.useSync) {
+                    this.useSync = useSync;
+                    this.loadPreferences().catch((error) =>
+                        console.error("Threadloaf: Error loading preferences:", error),
+                    );
+                }
+            }
+            if (areaName === (this.useSync ? "sync" : "local") && changes[PREFERENCES_KEY]) {
+                this.changeCount++;
+                this.preferences = this.normalize(changes[PREFERENCES_KEY].newValue);
+            }
+        };
+        this.storage.onChanged.addListener(handleChanged);
+        return () => this.storage?.onChanged.removeListener(handleChanged);
+    }
+
+    // The preferences for a channel: its own, on top of its server's
+    public getPreferences(guildId: string | null, channelId: string): DisplayPreferences {
+        return {
+            ...(guildId ? this.preferences.servers[guildId] : undefined),
+            ...this.preferences.channels[channelId],
+        };
+    }
+
+    // Remember preferences for a channel; they also become the server's default for channels that don't
+    // have their own yet
+    public async setChannelPreferences(
+        guildId: string | null,
+        channelId: string,
+        preferences: DisplayPreferences,
+    ): Promise<void> {
+        PreferenceStore.setRecent(this.preferences.channels, channelId, preferences, MAX_CHANNELS);
+        if (guildId) {
+            PreferenceStore.setRecent(this.preferences.servers, guildId, preferences, MAX_SERVERS);
+        }
+        await this.save();
+    }
+
+    public isSyncEnabled(): boolean {
+        return this.useSync;
+    }
+
+    // Move the preferences to sync storage or back to local storage. The old copy is only removed once the
+    // new one is written; returns whether the move happened.
+    public async setSyncEnabled(useSync: boolean): Promise<boolean> {
+        if (useSync === this.useSync) return true;
+
+        const previousArea = this.getArea();
+        this.useSync = useSync;
+        if (!this.storage || !previousArea) return true;
+
+        if (!(await this.save())) {
+            this.useSync = !useSync;
+            return false;
+        }
+
+        try {
+            await this.storage.local.set({ [USE_SYNC_KEY]: useSync });
+            await previousArea.remove(PREFERENCES_KEY);
+        } catch (error) {
+            console.error("Threadloaf: Error moving preferences:", error);
+        }
+        return true;
+    }
+
+    // Settings with a channel's display preferences applied
+    public static applyPreferences(settings: ThreadloafSettings, preferences: DisplayPreferences): ThreadloafSettings {
+        const applied = { ...settings };
+        if (preferences.showSystemMessages !== undefined) {
+            applied.showSystemMessages = preferences.showSystemMessages;
+        }
+        if (preferences.pruneChildlessTombstones !== undefined) {
+            applied.pruneChildlessTombstones = preferences.pruneChildlessTombstones;
+        }
+        return applied;
+    }
+
+    // Read the preferences from whichever area they're kept in now
+    private async loadPreferences(): Promise<void> {
+        const area = this.getArea();
+        if (!area) return;
+
+        const changeCount = this.changeCount;
+        const stored = await area.get(PREFERENCES_KEY);
+        if (changeCount === this.changeCount) {
+            this.preferences = this.normalize(stored[PREFERENCES_KEY]);
+        }
+    }
+
+    // Returns whether the preferences were written
+    private async save(): Promise<boolean> {
+        try {
+            await this.getArea()?.set({ [PREFERENCES_KEY]: this.preferences });
+            return true;
+        } catch (error) {
+            console.error("Threadloaf: Error saving preferences:", error);
+            return false;
+        }
+    }
+
+    // Update an entry and move it to the end, so the entries changed longest ago come first and are
+    // the ones dropped beyond the limit. Discord IDs are too large to be array indices, so objects keep
+    // them in insertion order.
+    private static setRecent(
+        entries: { [id: string]: DisplayPreferences },
+        id: string,
+        preferences: DisplayPreferences,
+        limit: number,
+    ): void {
+        const updated = { ...entries[id], ...preferences };
+        delete entries[id];
+        entries[id] = updated;
+
+        const ids = Object.keys(entries);
+        ids.slice(0, Math.max(0, ids.length - limit)).forEach((oldId) => delete entries[oldId]);
+    }
+
+    private getArea(): chrome.storage.StorageArea | null {
+        if (!this.storage) return null;
+        return this.useSync ? this.storage.sync : this.storage.local;
+    }
+
+    // Stored data may come from an older version or be missing entirely
+    private normalize(stored: unknown): StoredPreferences {
+        const value = (stored || {}) as Partial<StoredPreferences>;
+        return { servers: value.servers || {}, channels: value.channels || {} };
+    }
+}
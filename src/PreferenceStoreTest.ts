@@ -0,0 +1,109 @@
+import { assertEqual, deepEqual, Test } from "./test_utils";
+import { PreferenceStore } from "./PreferenceStore";
+import { createDefaultSettings } from "./ThreadloafSettings";
+
+export class PreferenceStoreTest {
+    // Storage areas kept in memory; writes to sync storage fail when `isSyncFull` is set, as they do
+    // over its size limit
+    private createStorage(isSyncFull: boolean) {
+        const createArea = (isFull: boolean) => {
+            const items: { [key: string]: unknown } = {};
+            return {
+                items,
+                get: async (key: string) => (key in items ? { [key]: items[key] } : {}),
+                set: async (values: { [key: string]: unknown }) => {
+                    if (isFull) throw new Error("QUOTA_BYTES_PER_ITEM quota exceeded");
+                    Object.assign(items, values);
+                },
+                remove: async (key: string) => {
+                    delete items[key];
+                },
+            };
+        };
+        const local = createArea(false);
+        const sync = createArea(isSyncFull);
+        const storage = { local, sync, onChanged: { addListener: () => {}, removeListener: () => {} } };
+        return { local, sync, storage: storage as unknown as typeof chrome.storage };
+    }
+
+    async getTests(): Promise<Test[]> {
+        return [
+            {
+                name: "a channel's preferences also become its server's default",
+                fn: async () => {
+                    const store = new PreferenceStore(null);
+                    await store.setChannelPreferences("G1", "C1", { viewMode: "thread" });
+
+                    deepEqual(store.getPreferences("G1", "C1"), { viewMode: "thread" });
+                    deepEqual(store.getPreferences("G1", "C2"), { viewMode: "thread" });
+                    deepEqual(store.getPreferences("G2", "C3"), {});
+                },
+            },
+            {
+                name: "channel preferences win over the server's",
+                fn: async () => {
+                    const store = new PreferenceStore(null);
+                    await store.setChannelPreferences("G1", "C1", { viewMode: "thread", showSystemMessages: false });
+                    await store.setChannelPreferences("G1", "C2", { viewMode: "chat" });
+
+                    deepEqual(store.getPreferences("G1", "C1"), { viewMode: "thread", showSystemMessages: false });
+                    deepEqual(store.getPreferences("G1", "C3"), { viewMode: "chat", showSystemMessages: false });
+                },
+            },
+            {
+                name: "channels and servers changed longest ago are forgotten",
+                fn: async () => {
+                    const store = new PreferenceStore(null);
+                    for (let i = 0; i < 60; i++) {
+                        await store.setChannelPreferences(`G${i}`, `C${i}`, { viewMode: "thread" });
+                    }
+                    await store.setChannelPreferences("G0", "C10", { viewMode: "chat" });
+
+                    deepEqual(store.getPreferences(null, "C10"), { viewMode: "chat" });
+                    deepEqual(store.getPreferences(null, "C9"), {});
+                    deepEqual(store.getPreferences(null, "C11"), { viewMode: "thread" });
+                    deepEqual(store.getPreferences("G0", "C99"), { viewMode: "chat" });
+                    deepEqual(store.getPreferences("G45", "C99"), {});
+                    deepEqual(store.getPreferences("G46", "C99"), { viewMode: "thread" });
+                },
+            },
+            {
+                name: "preferences are moved to sync storage and the local copy removed",
+                fn: async () => {
+                    const { local, sync, storage } = this.createStorage(false);
+                    const store = new PreferenceStore(storage);
+                    await store.setChannelPreferences("G1", "C1", { viewMode: "thread" });
+
+                    assertEqual(await store.setSyncEnabled(true), true);
+                    assertEqual(store.isSyncEnabled(), true);
+                    assertEqual("threadloafPreferences" in local.items, false);
+                    assertEqual(local.items.threadloafUseSync, true);
+                    assertEqual("threadloafPreferences" in sync.items, true);
+                },
+            },
+            {
+                name: "preferences stay in local storage when sync storage refuses them",
+                fn: async () => {
+                    const { local, storage } = this.createStorage(true);
+                    const store = new PreferenceStore(storage);
+                    await store.setChannelPreferences("G1", "C1", { viewMode: "thread" });
+
+                    assertEqual(await store.setSyncEnabled(true), false);
+                    assertEqual(store.isSyncEnabled(), false);
+                    assertEqual("threadloafPreferences" in local.items, true);
+                    assertEqual("threadloafUseSync" in local.items, false);
+                },
+            },
+            {
+                name: "display preferences override settings",
+                fn: () => {
+                    const settings = createDefaultSettings();
+                    const applied = PreferenceStore.applyPreferences(settings, { showSystemMessages: false });
+                    assertEqual(applied.showSystemMessages, false);
+                    assertEqual(applied.pruneChildlessTombstones, settings.pruneChildlessTombstones);
+                    assertEqual(settings.showSystemMessages, true);
+                },
+            },
+        ];
+    }
+}
@@ -0,0 +1,185 @@
+import { MessageTreeBuilder } from "./MessageTreeBuilder";
+import { ThreadloafSettings } from "./ThreadloafSettings";
+
+type SettingValue = boolean | number | string;
+
+// One setting as it appears on the options page or in the popup
+export interface SettingsField {
+    label: string;
+    description?: string;
+    type: "checkbox" | "number" | "select" | "key";
+    min?: number; // For numbers
+    max?: number;
+    options?: { value: string; label: string }[]; // For selects
+    get(settings: ThreadloafSettings): SettingValue;
+    set(settings: ThreadloafSettings, value: SettingValue): void;
+}
+
+export interface SettingsSection {
+    title: string;
+    fields: SettingsField[];
+}
+
+const enabledField: SettingsField = {
+    label: "Enabled",
+    description: "Turn Threadloaf off to get Discord's own view back in open tabs, without reloading them",
+    type: "checkbox",
+    get: (settings) => settings.enabled,
+    set: (settings, value) => (settings.enabled = value === true),
+};
+
+const defaultViewModeField: SettingsField = {
+    label: "Default view",
+    description: "How channels open until you pick a view there; the choice is remembered per channel and server",
+    type: "select",
+    options: [
+        { value: "chat", label: "Chat" },
+        { value: "thread", label: "Thread" },
+    ],
+    get: (settings) => settings.defaultViewMode,
+    set: (settings, value) => (settings.defaultViewMode = value === "thread" ? "thread" : "chat"),
+};
+
+const showSystemMessagesField: SettingsField = {
+    label: "Show system messages",
+    description: "Boosts, pins, joins, and title changes",
+    type: "checkbox",
+    get: (settings) => settings.showSystemMessages,
+    set: (settings, value) => (settings.showSystemMessages = value === true),
+};
+
+const recencyColoringField: SettingsField = {
+    label: "Highlight recent messages",
+    description: "Newer messages are brighter and the newest is bold",
+    type: "checkbox",
+    get: (settings) => settings.recencyColoring,
+    set: (settings, value) => (settings.recencyColoring = value === true),
+};
+
+function numberField(
+    label: string,
+    key: {
+        [K in keyof ThreadloafSettings]: ThreadloafSettings[K] extends number ? K : never;
+    }[keyof ThreadloafSettings],
+    min: number,
+    max: number,
+    description?: string,
+): SettingsField {
+    return {
+        label,
+        description,
+        type: "number",
+        min,
+        max,
+        get: (settings) => settings[key],
+        set: (settings, value) => (settings[key] = Math.min(max, Math.max(min, Number(value) || 0))),
+    };
+}
+
+function keyField(label: string, binding: keyof ThreadloafSettings["keyBindings"]): SettingsField {
+    return {
+        label,
+        description: "Click the box, then press the key to use",
+        type: "key",
+        get: (settings) => settings.keyBindings[binding],
+        set: (settings, value) => (settings.keyBindings[binding] = String(value)),
+    };
+}
+
+// Everything on the options page, in display order
+export function createOptionsSections(): SettingsSection[] {
+    return [
+        {
+            title: "View",
+            fields: [
+                enabledField,
+                defaultViewModeField,
+                showSystemMessagesField,
+                {
+                    label: "Hide deleted messages without replies",
+                    description: "Deleted messages with replies always stay so their replies keep their place",
+                    type: "checkbox",
+                    get: (settings) => settings.pruneChildlessTombstones,
+                    set: (settings, value) => (settings.pruneChildlessTombstones = value === true),
+                },
+            ],
+        },
+        {
+            title: "Threading rules",
+            fields: [
+                ...MessageTreeBuilder.createDefaultRules().map(
+                    (rule): SettingsField => ({
+                        label: rule.name,
+                        description: rule.isInference ? "A guess; Discord doesn't record these as replies" : undefined,
+                        type: "checkbox",
+                        get: (settings) => settings.enabledRules[rule.id] === true,
+                        set: (settings, value) => (settings.enabledRules[rule.id] = value === true),
+                    }),
+                ),
+                numberField("Same-author window (minutes)", "sameAuthorWindowMinutes", 0, 60),
+                numberField("Mention window (minutes)", "mentionWindowMinutes", 0, 1440),
+            ],
+        },
+        {
+            title: "Indentation",
+            fields: [
+                numberField("First reply indent (pixels)", "firstLevelIndent", 0, 200),
+                numberField(
+                    "Maximum indent (pixels)",
+                    "maxIndent",
+                    50,
+                    1000,
+                    "Deeper replies get closer to this but never reach it",
+                ),
+                numberField("Threadlines up to depth", "maxThreadlineDepth", 0, 50),
+                numberField(
+                    "Show replies up to depth",
+                    "continueThreadDepth",
+                    1,
+                    50,
+                    'Deeper replies get a "Continue this thread" link that shows them on their own',
+                ),
+            ],
+        },
+        {
+            title: "Recency coloring",
+            fields: [
+                recencyColoringField,
+                numberField("Highlighted messages", "recencyGradientCount", 1, 100, "How many of the newest messages"),
+            ],
+        },
+        {
+            title: "Keyboard",
+            fields: [
+                keyField("Previous message", "previousMessage"),
+                keyField("Next message", "nextMessage"),
+                keyField("Next unread message", "nextUnread"),
+                keyField("Collapse all but the current branch", "collapseOtherBranches"),
+                keyField("Expand all branches", "expandAllBranches"),
+                keyField("Focus on the expanded message", "focusMessage"),
+            ],
+        },
+        {
+            title: "Advanced",
+            fields: [
+                {
+                    label: "Debug mode",
+                    description: "Log diagnostics to the console of Discord's tab",
+                    type: "checkbox",
+                    get: (settings) => settings.debugMode,
+                    set: (settings, value) => (settings.debugMode = value === true),
+                },
+            ],
+        },
+    ];
+}
+
+// The few settings worth changing from the toolbar popup
+export function createPopupSections(): SettingsSection[] {
+    return [
+        {
+            title: "Quick settings",
+            fields: [enabledField, defaultViewModeField, showSystemMessagesField, recencyColoringField],
+        },
+    ];
+}
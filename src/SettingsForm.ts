@@ -0,0 +1,107 @@
+import { SettingsField, SettingsSection } from "./SettingsFields";
+import { SettingsStore } from "./SettingsStore";
+import { ThreadloafSettings } from "./ThreadloafSettings";
+
+/**
+ * Builds a form for the given settings sections on the options page or in the popup.
+ * Every change is saved right away; open Discord tabs are subscribed to the store and
+ * pick it up from there.
+ */
+export class SettingsForm {
+    private store: SettingsStore;
+    private settings: ThreadloafSettings | null = null;
+
+    constructor(store: SettingsStore) {
+        this.store = store;
+    }
+
+    public async render(container: HTMLElement, sections: SettingsSection[]): Promise<void> {
+        this.settings = await this.store.load();
+        sections.forEach((section) => container.appendChild(this.createSection(section, this.settings!)));
+    }
+
+    private createSection(section: SettingsSection, settings: ThreadloafSettings): HTMLElement {
+        const fieldset = document.createElement("fieldset");
+        const legend = document.createElement("legend");
+        legend.textContent = section.title;
+        fieldset.appendChild(legend);
+        section.fields.forEach((field) => fieldset.appendChild(this.createField(field, settings)));
+        return fieldset;
+    }
+
+    private createField(field: SettingsField, settings: ThreadloafSettings): HTMLElement {
+        const label = document.createElement("label");
+        label.classList.add("setting", `setting-${field.type}`);
+
+        const text = document.createElement("span");
+        text.classList.add("setting-label");
+        text.textContent = field.label;
+
+        const input = this.createInput(field, settings);
+        if (field.type === "checkbox") {
+            label.append(input, text);
+        } else {
+            label.append(text, input);
+        }
+
+        if (field.description) {
+            const description = document.createElement("span");
+            description.classList.add("setting-description");
+            description.textContent = field.description;
+            label.appendChild(description);
+        }
+        return label;
+    }
+
+    private createInput(field: SettingsField, settings: ThreadloafSettings): HTMLElement {
+        const value = field.get(settings);
+
+        if (field.type === "select") {
+            const select = document.createElement("select");
+            (field.options || []).forEach((option) => select.add(new Option(option.label, option.value)));
+            select.value = String(value);
+            select.onchange = () => this.update(field, select.value);
+            return select;
+        }
+
+        const input = document.createElement("input");
+        if (field.type === "checkbox") {
+            input.type = "checkbox";
+            input.checked = value === true;
+            input.onchange = () => this.update(field, input.checked);
+        } else if (field.type === "number") {
+            input.type = "number";
+            input.min = String(field.min);
+            input.max = String(field.max);
+            input.value = String(value);
+            input.onchange = () => {
+                this.update(field, input.valueAsNumber);
+                input.value = String(field.get(this.settings!)); // Show the value after clamping
+            };
+        } else {
+            // Key bindings are recorded by pressing the key rather than typed
+            input.type = "text";
+            input.readOnly = true;
+            input.value = this.describeKey(String(value));
+            input.onkeydown = (e) => {
+                if (e.key === "Tab" || e.key === "Escape") return;
+                e.preventDefault();
+                const key = e.key.length === 1 ? e.key.toLowerCase() : e.key;
+                input.value = this.describeKey(key);
+                this.update(field, key);
+            };
+        }
+        return input;
+    }
+
+    // Key bindings are stored as KeyboardEvent.key values, which is invisible for the space bar
+    private describeKey(key: string): string {
+        return key === " " ? "Space" : key;
+    }
+
+    private update(field: SettingsField, value: boolean | number | string): void {
+        if (!this.settings) return;
+        field.set(this.settings, value);
+        this.store.save(this.settings);
+    }
+}
@@ -0,0 +1,60 @@
+import { ThreadloafSettings, mergeWithDefaults } from "./ThreadloafSettings";
+
+const SETTINGS_KEY = "threadloafSettings";
+
+/**
+ * Loads and saves the user's settings in chrome.storage.sync, so they follow the user to
+ * their other browsers. The options page and popup save here, and open Discord tabs
+ * subscribe to pick up the changes while they're open.
+ */
+export class SettingsStore {
+    private storage: typeof chrome.storage | null;
+    private listeners = new Set<(settings: ThreadloafSettings) => void>();
+
+    // Without storage (as in tests) saved settings only reach this store's own subscribers
+    constructor(storage: typeof chrome.storage | null) {
+        this.storage = storage;
+    }
+
+    public async load(): Promise<ThreadloafSettings> {
+        if (!this.storage) return mergeWithDefaults(undefined);
+
+        try {
+            const stored = await this.storage.sync.get(SETTINGS_KEY);
+            return mergeWithDefaults(stored[SETTINGS_KEY]);
+        } catch (error) {
+            console.error("Threadloaf: Error loading settings:", error);
+            return mergeWithDefaults(undefined);
+        }
+    }
+
+    public async save(settings: ThreadloafSettings): Promise<void> {
+        if (!this.storage) {
+            this.listeners.forEach((listener) => listener(mergeWithDefaults(settings)));
+            return;
+        }
+
+        try {
+            await this.storage.sync.set({ [SETTINGS_KEY]: settings });
+        } catch (error) {
+            console.error("Threadloaf: Error saving settings:", error);
+        }
+    }
+
+    // Call the listener with the new settings whenever they're saved, from any tab or extension page;
+    // returns a function that unsubscribes
+    public subscribe(listener: (settings: ThreadloafSettings) => void): () => void {
+        if (!this.storage) {
+            this.listeners.add(listener);
+            return () => this.listeners.delete(listener);
+        }
+
+        const handleChanged = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+            if (areaName === "sync" && changes[SETTINGS_KEY]) {
+                listener(mergeWithDefaults(changes[SETTINGS_KEY].newValue));
+            }
+        };
+        this.storage.onChanged.addListener(handleChanged);
+        return () => this.storage?.onChanged.removeListener(handleChanged);
+    }
+}
@@ -0,0 +1,55 @@
+import { assertEqual, deepEqual, Test } from "./test_utils";
+import { SettingsStore } from "./SettingsStore";
+import { ThreadloafSettings, createDefaultSettings, mergeWithDefaults } from "./ThreadloafSettings";
+
+export class SettingsStoreTest {
+    async getTests(): Promise<Test[]> {
+        return [
+            {
+                name: "stored settings are merged with the defaults",
+                fn: () => {
+                    const merged = mergeWithDefaults({
+                        sameAuthorWindowMinutes: 5,
+                        enabledRules: { quote: true },
+                        keyBindings: { nextMessage: "j" },
+                    });
+                    const expected = createDefaultSettings();
+                    expected.sameAuthorWindowMinutes = 5;
+                    expected.enabledRules.quote = true;
+                    expected.keyBindings.nextMessage = "j";
+                    deepEqual(merged, expected);
+                },
+            },
+            {
+                name: "stored values of the wrong type or unknown keys are ignored",
+                fn: () => {
+                    const merged = mergeWithDefaults({
+                        maxIndent: "wide",
+                        defaultViewMode: "sideways",
+                        somethingRemoved: true,
+                    }) as ThreadloafSettings & { somethingRemoved?: boolean };
+                    assertEqual(merged.maxIndent, 350);
+                    assertEqual(merged.defaultViewMode, "chat");
+                    assertEqual(merged.somethingRemoved, undefined);
+                    deepEqual(mergeWithDefaults(null), createDefaultSettings());
+                },
+            },
+            {
+                name: "subscribers get saved settings until they unsubscribe",
+                fn: async () => {
+                    const store = new SettingsStore(null);
+                    const received: boolean[] = [];
+                    const unsubscribe = store.subscribe((settings) => received.push(settings.recencyColoring));
+
+                    const settings = await store.load();
+                    settings.recencyColoring = false;
+                    await store.save(settings);
+                    unsubscribe();
+                    await store.save(settings);
+
+                    deepEqual(received, [false]);
+                },
+            },
+        ];
+    }
+}
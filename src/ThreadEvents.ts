@@ -0,0 +1,42 @@
+// What changed in Discord's message list, as seen by the mutation observer. Message events list
+// every affected message in the batch of mutations.
+export type ThreadEvent =
+    | { type: "messageAdded"; messageIds: string[] } // New messages at the bottom
+    | { type: "messageRemoved"; messageIds: string[] } // Deleted, or unloaded by Discord
+    | { type: "messageEdited"; messageIds: string[] } // Content changed or the message was re-rendered
+    | { type: "reactionChanged"; messageIds: string[] }
+    | { type: "accessoriesChanged"; messageIds: string[] } // Embeds, attachments, or poll results changed
+    | { type: "historyPrepended"; messageIds: string[] } // Older messages loaded above the existing ones
+    | { type: "channelChanged"; channelId: string | null };
+
+export type ThreadEventType = ThreadEvent["type"];
+
+type ThreadEventHandler = (events: ThreadEvent[]) => void;
+
+/**
+ * Delivers thread events to the parts of Threadloaf that care about them.
+ * Each subscriber names the event types it needs and is called once per batch of
+ * mutations with just those events, so a batch causes at most one re-render.
+ */
+export class ThreadEventBus {
+    private subscriptions = new Set<{ types: Set<ThreadEventType>; handler: ThreadEventHandler }>();
+
+    // Returns a function that unsubscribes
+    public subscribe(types: ThreadEventType[], handler: ThreadEventHandler): () => void {
+        const subscription = { types: new Set(types), handler };
+        this.subscriptions.add(subscription);
+        return () => this.subscriptions.delete(subscription);
+    }
+
+    public publish(events: ThreadEvent[]): void {
+        if (events.length === 0) return;
+
+        // Copy first; a handler may unsubscribe (e.g. by uninstalling) while we're iterating
+        for (const { types, handler } of Array.from(this.subscriptions)) {
+            const matching = events.filter((event) => types.has(event.type));
+            if (matching.length > 0) {
+                handler(matching);
+            }
+        }
+    }
+}
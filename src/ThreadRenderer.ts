@@ -4,6 +4,16 @@ import { DomMutator } from "./DomMutator";
 import { MessageParser } from "./MessageParser";
 import { MessageTreeBuilder } from "./MessageTreeBuilder";
 import { MessageInfo } from "./MessageInfo";
+import { EditHistory } from "./EditHistory";
+import { TombstoneTracker } from "./TombstoneTracker";
+import { MessageElementFactory, MessageRow } from "./MessageReconciler";
+import { VirtualThreadList } from "./VirtualThreadList";
+import { Lifecycle } from "./Lifecycle";
+import { DisplayPreferences, PreferenceStore } from "./PreferenceStore";
+import { UnreadTracker } from "./UnreadTracker";
+
+// Message fields that don't go into a row's signature; see getSignature
+const UNSIGNED_KEYS = new Set(["children", "originalElement", "messageNumber", "isUnread", "unreadReplyCount"]);
 
 /**
  * Manages the rendering of threaded message views in the Discord interface.
@@ -17,6 +27,17 @@ export class ThreadRenderer {
     private domMutator: DomMutator;
     private messageParser: MessageParser;
     private messageTreeBuilder: MessageTreeBuilder;
+    private editHistory: EditHistory;
+    private tombstoneTracker: TombstoneTracker;
+    private threadList: VirtualThreadList;
+    private lifecycle: Lifecycle;
+    private preferenceStore: PreferenceStore;
+    private unreadTracker: UnreadTracker;
+    private floatButtonScope: Lifecycle | null = null;
+    private unreadCount = 0; // Unread messages in the last render
+    private isChannelOptionsOpen = false; // Kept open across the float button's remounts
+    private treeParents = new Map<string, string>(); // Parent of each message in the last rendered tree
+    private treeMessagesById = new Map<string, MessageInfo>(); // Every message in the last rendered tree
 
     constructor(
         state: ThreadloafState,
@@ -24,198 +45,131 @@ export class ThreadRenderer {
         domMutator: DomMutator,
         messageParser: MessageParser,
         messageTreeBuilder: MessageTreeBuilder,
+        editHistory: EditHistory,
+        tombstoneTracker: TombstoneTracker,
+        threadList: VirtualThreadList,
+        lifecycle: Lifecycle,
+        preferenceStore: PreferenceStore,
+        unreadTracker: UnreadTracker,
     ) {
         this.state = state;
         this.domParser = domParser;
         this.domMutator = domMutator;
         this.messageParser = messageParser;
         this.messageTreeBuilder = messageTreeBuilder;
+        this.editHistory = editHistory;
+        this.tombstoneTracker = tombstoneTracker;
+        this.threadList = threadList;
+        this.lifecycle = lifecycle;
+        this.preferenceStore = preferenceStore;
+        this.unreadTracker = unreadTracker;
+
+        // Reading a message marks it read
+        this.threadList.onExpand((message) => {
+            const channelId = this.domParser.findChannelId();
+            if (channelId && this.unreadTracker.markRead(channelId, message)) {
+                this.showRead(message.id);
+            }
+        });
     }
 
     // Render the thread UI
     public renderThread(): void {
         if (!this.state.threadContainer) return;
 
-        // Store scroll position before re-render
-        const existingThreadContent = document.getElementById("threadloaf-content");
-
-        // Store currently expanded message and its position relative to viewport
-        const expandedMessage = document.querySelector(".threadloaf-message.expanded");
-        const expandedMessageId = expandedMessage?.getAttribute("data-msg-id");
-        const expandedMessageRect = expandedMessage?.getBoundingClientRect();
-        const expandedMessageViewportOffset = expandedMessageRect ? expandedMessageRect.top : null;
-
-        // If no expanded message, store position of most recent non-expanded message
-        let recentMessageId: string | null = null;
-        let recentMessageViewportOffset: number | null = null;
-        if (!expandedMessage && existingThreadContent) {
-            const allMessages = Array.from(existingThreadContent.querySelectorAll(".threadloaf-message"));
-            const mostRecentMessage = allMessages[allMessages.length - 1] as HTMLElement;
-            if (mostRecentMessage) {
-                recentMessageId = mostRecentMessage.getAttribute("data-msg-id");
-                const rect = mostRecentMessage.getBoundingClientRect();
-                recentMessageViewportOffset = rect.top;
-            }
-        }
-
         // Check if we're at the top of the thread
         this.state.isTopLoaded = this.domParser.checkIfTopLoaded();
 
-        // Get existing container or create new one
+        // Reuse the existing container so unchanged messages keep their elements
         let threadloafContainer = document.getElementById("threadloaf-container");
         const isNewContainer = !threadloafContainer;
-
-        if (isNewContainer) {
-            threadloafContainer = document.createElement("div");
-            threadloafContainer.id = "threadloaf-container";
+        if (!threadloafContainer) {
+            threadloafContainer = this.createThreadloafContainer();
         }
+        const messageThread = threadloafContainer.querySelector(".message-thread") as HTMLElement;
 
-        // Create a new container for thread content
-        const threadContent = document.createElement("div");
-        threadContent.id = "threadloaf-content";
-
-        // Build the new DOM tree
-        const newThreadloafContainer = document.createElement("div");
-        newThreadloafContainer.id = "threadloaf-container";
-        newThreadloafContainer.appendChild(threadContent);
-
-        // Create floating toggle button
-        const createFloatButton = (isThreadView: boolean) => {
-            const existingButton = document.getElementById("threadloaf-float-button");
-            if (existingButton) {
-                existingButton.remove();
-            }
+        // Parse messages and build tree
+        const parsedMessages = this.messageParser.parseMessages(this.state.threadContainer);
+
+        if (this.state.settings.debugMode) {
+            const stats = this.messageParser.getCacheStats();
+            console.log(
+                `Threadloaf: parse cache ${stats.lastHits} hits, ${stats.lastMisses} misses ` +
+                    `(${stats.hits} hits, ${stats.misses} misses in total, ${stats.size} cached)`,
+            );
+        }
 
-            const floatButton = document.createElement("div");
-            floatButton.id = "threadloaf-float-button";
-
-            // Create Load Up button as a separate element
-            const loadUpButton = this.createLoadUpButton();
-            loadUpButton.style.marginRight = "8px"; // Change margin to right side
-
-            // Create Newest button
-            const newestButton = this.createNewestButton();
-            newestButton.style.marginLeft = "8px";
-
-            // Create toggle container
-            const toggleContainer = document.createElement("div");
-            toggleContainer.className = "toggle-container";
-
-            // Create Chat option
-            const chatOption = document.createElement("button");
-            chatOption.className = `toggle-option ${!isThreadView ? "active" : ""}`;
-            chatOption.textContent = "Chat";
-
-            // Create Thread option
-            const threadOption = document.createElement("button");
-            threadOption.className = `toggle-option ${isThreadView ? "active" : ""}`;
-            threadOption.textContent = "Thread";
-
-            const handleClick = (newIsThreadView: boolean) => {
-                if (newIsThreadView === isThreadView) return; // No change needed
-
-                this.state.isThreadViewActive = newIsThreadView; // Update the view state
-
-                if (newIsThreadView) {
-                    // Switch to thread view
-                    if (this.state.threadContainer) {
-                        this.state.threadContainer.style.display = "none";
-                        // Re-add our scroll override
-                        const scrollerElement = this.state.threadContainer.closest('div[class*="scroller_"]');
-                        if (scrollerElement) {
-                            const scrollerClass = Array.from(scrollerElement.classList).find((className) =>
-                                className.startsWith("scroller_"),
-                            );
-                            if (scrollerClass) {
-                                this.domMutator.addScrollerStyle(scrollerClass);
-                            }
-                        }
-                    }
-                    // Re-render thread to get latest messages
-                    this.renderThread();
-                    createFloatButton(true);
-                    // Scroll to newest message
-                    this.scrollToNewestMessage();
-                } else {
-                    // Switch to normal view
-                    if (this.state.threadContainer) {
-                        this.state.threadContainer.style.display = "block";
-                        // Remove our scroll override
-                        const scrollerElement = this.state.threadContainer.closest('div[class*="scroller_"]');
-                        if (scrollerElement) {
-                            const scrollerClass = Array.from(scrollerElement.classList).find((className) =>
-                                className.startsWith("scroller_"),
-                            );
-                            if (scrollerClass) {
-                                this.domMutator.removeScrollerStyle(scrollerClass);
-                            }
-                            // Scroll chat view to bottom
-                            scrollerElement.scrollTop = scrollerElement.scrollHeight;
-                        }
-                    }
-                    // Clean up threadloaf container when switching to chat view
-                    const threadloafContainer = document.getElementById("threadloaf-container");
-                    if (threadloafContainer) {
-                        threadloafContainer.remove();
-                    }
-                    createFloatButton(false);
-                }
-            };
+        // Every render follows a parse, so content changes seen by the observer end up in the history
+        this.editHistory.record(parsedMessages);
 
-            chatOption.onclick = () => handleClick(false);
-            threadOption.onclick = () => handleClick(true);
+        // Keep deleted messages as tombstones so their replies stay where they were. The tracker sees system events
+        // even when they're hidden, so hiding them doesn't look like deleting them.
+        const channelId = this.domParser.findChannelId();
+        const tombstones = channelId ? this.tombstoneTracker.update(channelId, parsedMessages) : [];
 
-            // Append buttons in the right order
-            toggleContainer.appendChild(chatOption);
-            toggleContainer.appendChild(threadOption);
-            floatButton.appendChild(loadUpButton); // Move load button to start
-            floatButton.appendChild(toggleContainer);
-            floatButton.appendChild(newestButton); // Add newest button at the end
-            document.body.appendChild(floatButton);
+        // Leave out system events if the user has hidden them
+        const rawMessages = [...parsedMessages, ...tombstones].filter(
+            (msg) => this.state.settings.showSystemMessages || !msg.kind,
+        );
 
-            // Position the button initially
-            this.updateFloatButtonPosition();
+        // Build the tree (which includes coalescing)
+        const rootMessages = this.messageTreeBuilder.buildMessageTree(rawMessages, this.state.settings);
 
-            // Set up resize observer for the channel container
-            const channelContainer = this.state.threadContainer?.closest('div[class*="chat_"]');
-            if (channelContainer) {
-                const resizeObserver = new ResizeObserver(() => {
-                    this.updateFloatButtonPosition();
-                });
-                resizeObserver.observe(channelContainer);
-            }
+        // A branch shown on its own, or a focus, whose message is gone goes back to the whole thread
+        const viewRootId = this.state.viewRootId;
+        if (viewRootId && !ThreadRenderer.findPath(rootMessages, viewRootId)) {
+            this.state.viewRootId = null;
+        }
+        const focusedId = this.state.focusedMessageId;
+        const focusPath = focusedId ? ThreadRenderer.findPath(rootMessages, focusedId) : null;
+        if (!focusPath) {
+            this.state.focusedMessageId = null;
+        }
+        const focusAncestorIds = new Set((focusPath || []).slice(0, -1).map((message) => message.id));
+
+        // Point out what the user hasn't read yet
+        this.unreadCount = channelId ? this.unreadTracker.markUnread(channelId, rootMessages) : 0;
+
+        // Remount the floating toggle button so it reflects the current view, loading state, unread count, and focus
+        this.mountFloatButton(this.state.isThreadViewActive);
+
+        // Flatten the tree into rows in display order, keeping each message's depth for indentation. Replies
+        // below collapsed messages, replies nested too deeply, everything outside a branch shown on its own, and
+        // while focused, everything but the focused message, the messages above it, and its replies get no rows.
+        // They are still numbered and colored so the rest keep their numbers and colors.
+        const continueThreadDepth = Math.max(1, this.state.settings.continueThreadDepth);
+        const treeMessages: MessageInfo[] = [];
+        const rows: MessageRow[] = [];
+        this.treeParents = new Map();
+        const flatten = (messages: MessageInfo[], depth: number | null, isInFocus: boolean): number => {
+            let count = 0;
+            messages.forEach((message) => {
+                // Null depth means the message isn't shown
+                const rowDepth = message.id === this.state.viewRootId ? 0 : depth;
+                const isInFocusedBranch = isInFocus || message.id === this.state.focusedMessageId;
+                treeMessages.push(message);
+                if (rowDepth !== null && (isInFocusedBranch || focusAncestorIds.has(message.id))) {
+                    rows.push({ message, depth: rowDepth });
+                }
 
-            // Also handle window resize
-            window.addEventListener("resize", () => {
-                this.updateFloatButtonPosition();
+                const children = message.children || [];
+                children.forEach((child) => this.treeParents.set(child.id, message.id));
+                const isCollapsed = children.length > 0 && this.state.collapsedMessageIds.has(message.id);
+                const continuesThread = children.length > 0 && !isCollapsed && rowDepth === continueThreadDepth;
+                const childDepth = rowDepth === null || isCollapsed || continuesThread ? null : rowDepth + 1;
+                message.replyCount = flatten(children, childDepth, isInFocusedBranch);
+                message.isCollapsed = isCollapsed;
+                message.continuesThread = continuesThread;
+                count += 1 + message.replyCount;
             });
+            return count;
         };
+        flatten(rootMessages, this.state.viewRootId ? null : 0, !this.state.focusedMessageId);
+        this.treeMessagesById = new Map(treeMessages.map((message) => [message.id, message]));
 
-        // Initial floating button creation
-        createFloatButton(this.state.isThreadViewActive);
-
-        // Parse messages and build tree
-        const rawMessages = this.messageParser.parseMessages(this.state.threadContainer);
-
-        // Build the tree (which includes coalescing)
-        const rootMessages = this.messageTreeBuilder.buildMessageTree(rawMessages);
-
-        // Flatten the tree to get all messages in display order
-        const getAllMessages = (messages: MessageInfo[]): MessageInfo[] => {
-            const result: MessageInfo[] = [];
-            const flatten = (msgs: MessageInfo[]) => {
-                msgs.forEach((msg) => {
-                    result.push(msg);
-                    if (msg.children && msg.children.length > 0) {
-                        flatten(msg.children);
-                    }
-                });
-            };
-            flatten(rootMessages);
-            return result;
-        };
-
-        const allMessages = getAllMessages(rootMessages);
+        // Placeholders for unloaded parents, system events, and tombstones aren't conversation, so they
+        // don't get numbered or colored
+        const allMessages = treeMessages.filter((msg) => !msg.isGhost && !msg.kind && !msg.isDeleted);
 
         // Now assign numbers to all messages in display order
         allMessages.forEach((msg, index) => {
@@ -227,7 +181,8 @@ export class ThreadRenderer {
         const messageColors = new Map<string, string>();
         const messageBold = new Map<string, boolean>();
 
-        const numGradientMessages = Math.min(15, colorSortedMessages.length);
+        const { recencyColoring, recencyGradientCount } = this.state.settings;
+        const numGradientMessages = Math.min(recencyGradientCount, colorSortedMessages.length);
 
         // Store the newest message ID if we have messages
         if (colorSortedMessages.length > 0) {
@@ -235,6 +190,13 @@ export class ThreadRenderer {
         }
 
         colorSortedMessages.forEach((msg, index) => {
+            if (!recencyColoring) {
+                // All messages look alike when the user has turned recency coloring off
+                messageColors.set(msg.id, "var(--text-normal)");
+                messageBold.set(msg.id, false);
+                return;
+            }
+
             let color;
             if (index === 0) {
                 // Newest message gets text-normal color and bold
@@ -255,84 +217,59 @@ export class ThreadRenderer {
             }
         });
 
-        // Clear only the thread content
-        threadContent.innerHTML = "";
-
-        const renderMessages = (messages: MessageInfo[], depth = 0) => {
-            // Calculate incremental indents
-            const MAX_INDENT = 350;
-            const FIRST_LEVEL_INDENT = 40;
-            const DECAY_RATE = -Math.log(1 - FIRST_LEVEL_INDENT / MAX_INDENT);
-            const MAX_THREADLINE_DEPTH = 10;
-
-            const getIncrementalIndent = (level: number): number => {
-                const totalIndentPrev =
-                    level === 0 ? 0 : Math.round(MAX_INDENT * (1 - Math.exp(-DECAY_RATE * (level - 1))));
-                const totalIndentCurr = Math.round(MAX_INDENT * (1 - Math.exp(-DECAY_RATE * level)));
-                return totalIndentCurr - totalIndentPrev;
-            };
-
-            const createMessageWithChildren = (message: MessageInfo, currentDepth: number): HTMLElement => {
-                const messageContainer = document.createElement("div");
-                messageContainer.classList.add("message-container");
-
-                const messageEl = this.domMutator.createMessageElement(
-                    message,
-                    0,
-                    messageColors.get(message.id) || "",
-                    messageBold.get(message.id) || false,
-                    message.messageNumber || 0,
-                    allMessages.length,
-                );
-
-                // Add class for root posts
-                if (currentDepth === 0) {
-                    messageEl.classList.add("root-thread");
+        const factory: MessageElementFactory = {
+            // Leave out the children, which have rows of their own, Discord's element, which is replaced
+            // whenever Discord re-renders the message, the message number, which shifts whenever a message
+            // is added above (only being first or last changes what the element looks like), and the unread
+            // markers, which change as messages are read and are updated in place
+            getSignature: (message) =>
+                JSON.stringify(
+                    [
+                        message,
+                        messageColors.get(message.id),
+                        messageBold.get(message.id),
+                        message.messageNumber === 1,
+                        message.messageNumber === allMessages.length,
+                        this.getAncestors(message.id).map((ancestor) => ancestor.id),
+                    ],
+                    (key, value) => (UNSIGNED_KEYS.has(key) ? undefined : value),
+                ),
+            createElement: (message) => {
+                if (message.isGhost) {
+                    return this.domMutator.createGhostMessageElement(
+                        message,
+                        () => this.loadUntilMessageLoaded(message.id),
+                        () => this.toggleCollapsed(message.id),
+                        () => this.showBranch(message.id),
+                    );
+                } else if (message.kind) {
+                    return this.domMutator.createSystemEventElement(message);
+                } else if (message.isDeleted) {
+                    return this.domMutator.createTombstoneElement(
+                        message,
+                        () => this.toggleCollapsed(message.id),
+                        () => this.showBranch(message.id),
+                    );
                 }
-
-                // Add class if depth exceeds maxThreadlineDepth
-                if (currentDepth > MAX_THREADLINE_DEPTH) {
-                    messageEl.classList.add("no-threadline");
-                }
-
-                // Append the message element
-                messageContainer.appendChild(messageEl);
-
-                // Create children container if the message has children
-                if (message.children && message.children.length > 0) {
-                    const childrenContainer = document.createElement("div");
-                    childrenContainer.classList.add("children-container");
-
-                    if (currentDepth + 1 > MAX_THREADLINE_DEPTH) {
-                        childrenContainer.classList.add("no-threadline");
-                    }
-
-                    childrenContainer.style.marginLeft = `${getIncrementalIndent(currentDepth + 1)}px`;
-
-                    message.children.forEach((child) => {
-                        const childElement = createMessageWithChildren(child, currentDepth + 1);
-                        childrenContainer.appendChild(childElement);
-                    });
-
-                    messageContainer.appendChild(childrenContainer);
+                return this.domMutator.createMessageElement(message, {
+                    color: messageColors.get(message.id) || "",
+                    isBold: messageBold.get(message.id) || false,
+                    commentNumber: message.messageNumber || 0,
+                    totalMessages: allMessages.length,
+                    ancestors: this.getAncestors(message.id),
+                    onToggleCollapsed: () => this.toggleCollapsed(message.id),
+                    onContinueThread: () => this.showBranch(message.id),
+                    onFocus: () => this.focusMessage(message.id),
+                });
+            },
+            updateElement: (element, message) => {
+                if (message.messageNumber) {
+                    element.dataset.msgNumber = message.messageNumber.toString();
                 }
-
-                return messageContainer;
-            };
-
-            const container = document.createElement("div");
-            container.classList.add("message-thread");
-
-            messages.forEach((message) => {
-                const rootMessageElement = createMessageWithChildren(message, depth);
-                container.appendChild(rootMessageElement);
-            });
-
-            return container;
+                this.domMutator.updateUnreadMarkers(element, message);
+            },
         };
 
-        threadContent.appendChild(renderMessages(rootMessages));
-
         // Hide original thread container and append/update custom UI
         if (this.state.isThreadViewActive) {
             this.state.threadContainer.style.display = "none";
@@ -342,49 +279,25 @@ export class ThreadRenderer {
 
                 if (isNewContainer) {
                     // First render - just append the new container
-                    parentElement.appendChild(newThreadloafContainer);
-                } else {
-                    threadloafContainer!.replaceWith(newThreadloafContainer);
+                    parentElement.appendChild(threadloafContainer);
                 }
 
-                // First, handle expanded posts
-                if (expandedMessageId) {
-                    // Restore previously expanded message
-                    const messageToExpand = document.querySelector(
-                        `[data-msg-id="${expandedMessageId}"]`,
-                    ) as HTMLElement;
-                    if (messageToExpand) {
-                        messageToExpand.classList.add("expanded");
-                        const previewContainer = messageToExpand.querySelector(".preview-container") as HTMLElement;
-                        const fullContentContainer = messageToExpand.querySelector(".full-content") as HTMLElement;
-                        if (previewContainer) previewContainer.style.display = "none";
-                        if (fullContentContainer) fullContentContainer.style.display = "block";
-
-                        // Restore expanded message's position relative to viewport
-                        if (expandedMessageViewportOffset !== null) {
-                            const newRect = messageToExpand.getBoundingClientRect();
-                            const currentOffset = newRect.top;
-                            const scrollContainer = document.getElementById("threadloaf-content");
-                            if (scrollContainer) {
-                                scrollContainer.scrollTop += currentOffset - expandedMessageViewportOffset;
-                            }
-                        }
-                    }
-                } else if (recentMessageId && recentMessageViewportOffset !== null) {
-                    // Restore position of most recent message
-                    const recentMessage = document.querySelector(`[data-msg-id="${recentMessageId}"]`) as HTMLElement;
-                    if (recentMessage) {
-                        const newRect = recentMessage.getBoundingClientRect();
-                        const currentOffset = newRect.top;
-                        const scrollContainer = document.getElementById("threadloaf-content");
-                        if (scrollContainer) {
-                            scrollContainer.scrollTop += currentOffset - recentMessageViewportOffset;
-                        }
-                    }
-                } else if (!existingThreadContent) {
-                    // Scroll to newest message on initial render without expanding it
+                // Only the rows near the viewport are mounted; the list also keeps the expanded (or else the
+                // most recent) message in place in the viewport when messages are added above it
+                const threadContent = threadloafContainer.querySelector("#threadloaf-content") as HTMLElement;
+                this.updateBreadcrumb(threadContent, messageThread);
+                this.threadList.attach(threadContent, messageThread);
+                this.threadList.setRows(rows, factory);
+
+                if (isNewContainer) {
+                    // Go back to where the user was in this channel, or else scroll to the newest message
+                    // without expanding it
                     setTimeout(() => {
-                        this.scrollToNewestMessage(false);
+                        const anchor = this.state.pendingScrollAnchor;
+                        this.state.pendingScrollAnchor = null;
+                        if (!anchor || !this.threadList.restoreScrollAnchor(anchor)) {
+                            this.scrollToNewestMessage(false);
+                        }
                     }, 0);
                 }
 
@@ -408,6 +321,370 @@ export class ThreadRenderer {
         this.domMutator.findAndHideHeader();
     }
 
+    // Take the thread view off the page and show Discord's own message list again
+    public unmount(): void {
+        this.removeThreadView();
+        this.state.isThreadViewActive = false;
+        this.state.expandedMessageId = null;
+    }
+
+    // Remove the thread view and show Discord's message list, leaving the view state alone so the next
+    // render starts with a new container
+    public removeThreadView(): void {
+        document.getElementById("threadloaf-container")?.remove();
+        if (this.state.threadContainer) {
+            this.state.threadContainer.style.display = "";
+        }
+    }
+
+    // Hide the branch of every message that has replies, except the messages leading to the expanded one, which
+    // stay open along with the expanded message's own replies; with nothing expanded, this collapses everything.
+    // Returns whether anything changed.
+    public collapseOtherBranches(): boolean {
+        const currentBranch = new Set<string>();
+        for (let id = this.state.expandedMessageId; id; id = this.treeParents.get(id) || null) {
+            currentBranch.add(id);
+        }
+
+        const parentIds = new Set(this.treeParents.values());
+        const collapsedIds = new Set(Array.from(parentIds).filter((id) => !currentBranch.has(id)));
+        const previousIds = this.state.collapsedMessageIds;
+        if (collapsedIds.size === previousIds.size && Array.from(collapsedIds).every((id) => previousIds.has(id))) {
+            return false;
+        }
+
+        this.state.collapsedMessageIds = collapsedIds;
+        this.renderThread();
+        return true;
+    }
+
+    // Returns whether anything was collapsed
+    public expandAllBranches(): boolean {
+        if (this.state.collapsedMessageIds.size === 0) return false;
+
+        this.state.collapsedMessageIds.clear();
+        this.renderThread();
+        return true;
+    }
+
+    // Show only the conversation around a message: the messages above it, from the top of the thread, and all of
+    // the replies below it. Returns whether the view changed.
+    public focusMessage(messageId: string): boolean {
+        if (messageId === this.state.focusedMessageId) return false;
+
+        for (let id: string | undefined = messageId; id; id = this.treeParents.get(id)) {
+            this.state.collapsedMessageIds.delete(id);
+        }
+        this.state.focusedMessageId = messageId;
+        this.renderThread();
+
+        if (this.threadList.hasMessage(messageId)) {
+            this.threadList.scrollToMessage(messageId, "auto");
+        }
+        return true;
+    }
+
+    // Show the whole thread again, at the message that was focused. Returns whether anything was focused.
+    public exitFocus(): boolean {
+        const focusedId = this.state.focusedMessageId;
+        if (!focusedId) return false;
+
+        this.state.focusedMessageId = null;
+        this.renderThread();
+
+        if (this.threadList.hasMessage(focusedId)) {
+            this.threadList.scrollToMessage(focusedId, "auto");
+        }
+        return true;
+    }
+
+    // Clear a message's "new" marker and take it off the counts of the messages above it, without a re-render
+    private showRead(messageId: string): void {
+        const message = this.treeMessagesById.get(messageId);
+        if (!message?.isUnread) return;
+
+        message.isUnread = false;
+        const changed = [message];
+        for (let id = this.treeParents.get(messageId); id; id = this.treeParents.get(id)) {
+            const ancestor = this.treeMessagesById.get(id);
+            if (ancestor?.unreadReplyCount) {
+                ancestor.unreadReplyCount--;
+                changed.push(ancestor);
+            }
+        }
+
+        // Rows that aren't mounted pick the change up when they're built
+        changed.forEach((changedMessage) => {
+            const element = this.threadList.findElement(changedMessage.id);
+            if (element) {
+                this.domMutator.updateUnreadMarkers(element, changedMessage);
+            }
+        });
+
+        // The float bar shows how many are left
+        this.unreadCount = Math.max(0, this.unreadCount - 1);
+        this.mountFloatButton(this.state.isThreadViewActive);
+    }
+
+    // Hide or show the replies below a message
+    private toggleCollapsed(messageId: string): void {
+        if (!this.state.collapsedMessageIds.delete(messageId)) {
+            this.state.collapsedMessageIds.add(messageId);
+        }
+        this.renderThread();
+        this.collapseIfHidden();
+    }
+
+    // Show a branch on its own, starting from the given message, or the whole thread again with null. Coming
+    // back out of a branch shows where it was in the larger view.
+    private showBranch(messageId: string | null): void {
+        const previousRootId = this.state.viewRootId;
+        this.state.viewRootId = messageId;
+        this.renderThread();
+        this.collapseIfHidden();
+
+        const targetId = messageId || previousRootId;
+        if (targetId && this.threadList.hasMessage(targetId)) {
+            this.threadList.scrollToMessage(targetId, "auto");
+        }
+    }
+
+    // The expanded message may have been in a branch that was just hidden
+    private collapseIfHidden(): void {
+        const expandedId = this.state.expandedMessageId;
+        if (expandedId && !this.threadList.hasMessage(expandedId)) {
+            this.threadList.collapseMessage();
+        }
+    }
+
+    // Make a message part of the view again: open the collapsed branches it's hidden in, and go back to the whole
+    // thread if it's outside the branch being shown on its own or the focused conversation
+    private revealMessage(messageId: string): void {
+        let isRevealed = false;
+        let isInView = messageId === this.state.viewRootId;
+        let isInFocus = messageId === this.state.focusedMessageId;
+        for (let id = this.treeParents.get(messageId); id; id = this.treeParents.get(id)) {
+            isRevealed = this.state.collapsedMessageIds.delete(id) || isRevealed;
+            isInView = isInView || id === this.state.viewRootId;
+            isInFocus = isInFocus || id === this.state.focusedMessageId;
+        }
+        if (this.state.viewRootId && !isInView) {
+            this.state.viewRootId = null;
+            isRevealed = true;
+        }
+        if (this.state.focusedMessageId && !isInFocus) {
+            this.state.focusedMessageId = null;
+            isRevealed = true;
+        }
+        if (isRevealed) {
+            this.renderThread();
+        }
+    }
+
+    // While a branch is shown on its own, lead back out through the messages above it, from the top of the thread
+    private updateBreadcrumb(threadContent: HTMLElement, messageThread: HTMLElement): void {
+        threadContent.querySelector(":scope > .thread-breadcrumb")?.remove();
+        const viewRoot = this.state.viewRootId ? this.treeMessagesById.get(this.state.viewRootId) : undefined;
+        if (!viewRoot) return;
+
+        const branch = [...this.getAncestors(viewRoot.id), viewRoot];
+
+        const breadcrumb = document.createElement("nav");
+        breadcrumb.classList.add("thread-breadcrumb");
+        breadcrumb.appendChild(this.createCrumb("All messages", () => this.showBranch(null)));
+        branch.forEach((message, index) => {
+            const snippet = message.content.length > 40 ? `${message.content.slice(0, 40)}…` : message.content;
+            const label = message.author ? `${message.author}: ${snippet}` : snippet;
+            const isCurrent = index === branch.length - 1;
+            const separator = document.createElement("span");
+            separator.classList.add("crumb-separator");
+            separator.textContent = "›";
+            breadcrumb.appendChild(separator);
+            breadcrumb.appendChild(this.createCrumb(label, isCurrent ? null : () => this.showBranch(message.id)));
+        });
+        threadContent.insertBefore(breadcrumb, messageThread);
+    }
+
+    private createCrumb(label: string, onClick: (() => void) | null): HTMLElement {
+        const crumb = document.createElement(onClick ? "button" : "span");
+        crumb.classList.add("crumb");
+        crumb.textContent = label;
+        crumb.title = label;
+        if (onClick) {
+            crumb.onclick = onClick;
+        } else {
+            crumb.classList.add("current");
+        }
+        return crumb;
+    }
+
+    // The messages above the given one in the last rendered tree, from the top down
+    private getAncestors(messageId: string): MessageInfo[] {
+        const ancestors: MessageInfo[] = [];
+        for (let id = this.treeParents.get(messageId); id; id = this.treeParents.get(id)) {
+            const ancestor = this.treeMessagesById.get(id);
+            if (ancestor) {
+                ancestors.unshift(ancestor);
+            }
+        }
+        return ancestors;
+    }
+
+    // The messages from the top of the tree down to the given one, or null if it isn't in the tree
+    private static findPath(messages: MessageInfo[], messageId: string): MessageInfo[] | null {
+        for (const message of messages) {
+            if (message.id === messageId) return [message];
+            const path = ThreadRenderer.findPath(message.children || [], messageId);
+            if (path) return [message, ...path];
+        }
+        return null;
+    }
+
+    // Create the floating toggle button, replacing the previous one
+    private mountFloatButton(isThreadView: boolean): void {
+        // Everything the previous button set up goes away with it
+        this.floatButtonScope?.dispose();
+        const scope = this.lifecycle.createScope();
+        this.floatButtonScope = scope;
+
+        const floatButton = document.createElement("div");
+        floatButton.id = "threadloaf-float-button";
+
+        // Create Load Up button as a separate element
+        const loadUpButton = this.createLoadUpButton();
+        loadUpButton.style.marginRight = "8px"; // Change margin to right side
+
+        // Create Newest button
+        const newestButton = this.createNewestButton();
+        newestButton.style.marginLeft = "8px";
+
+        // Create toggle container
+        const toggleContainer = document.createElement("div");
+        toggleContainer.className = "toggle-container";
+
+        // Create Chat option
+        const chatOption = document.createElement("button");
+        chatOption.className = `toggle-option ${!isThreadView ? "active" : ""}`;
+        chatOption.textContent = "Chat";
+
+        // Create Thread option
+        const threadOption = document.createElement("button");
+        threadOption.className = `toggle-option ${isThreadView ? "active" : ""}`;
+        threadOption.textContent = "Thread";
+
+        const handleClick = (newIsThreadView: boolean) => {
+            if (newIsThreadView === isThreadView) return; // No change needed
+
+            this.state.isThreadViewActive = newIsThreadView; // Update the view state
+
+            // Remember the choice for this channel, and as the default for the rest of the server
+            if (this.state.channelId) {
+                this.preferenceStore.setChannelPreferences(this.domParser.findRouteGuildId(), this.state.channelId, {
+                    viewMode: newIsThreadView ? "thread" : "chat",
+                });
+            }
+
+            if (newIsThreadView) {
+                // Switch to thread view
+                if (this.state.threadContainer) {
+                    this.state.threadContainer.style.display = "none";
+                    // Re-add our scroll override
+                    const scrollerElement = this.state.threadContainer.closest('div[class*="scroller_"]');
+                    if (scrollerElement) {
+                        const scrollerClass = Array.from(scrollerElement.classList).find((className) =>
+                            className.startsWith("scroller_"),
+                        );
+                        if (scrollerClass) {
+                            this.domMutator.addScrollerStyle(scrollerClass);
+                        }
+                    }
+                }
+                // Re-render thread to get latest messages
+                this.renderThread();
+                this.mountFloatButton(true);
+                // Scroll to newest message
+                this.scrollToNewestMessage();
+            } else {
+                // Switch to normal view
+                if (this.state.threadContainer) {
+                    this.state.threadContainer.style.display = "block";
+                    // Remove our scroll override
+                    const scrollerElement = this.state.threadContainer.closest('div[class*="scroller_"]');
+                    if (scrollerElement) {
+                        const scrollerClass = Array.from(scrollerElement.classList).find((className) =>
+                            className.startsWith("scroller_"),
+                        );
+                        if (scrollerClass) {
+                            this.domMutator.removeScrollerStyle(scrollerClass);
+                        }
+                        // Scroll chat view to bottom
+                        scrollerElement.scrollTop = scrollerElement.scrollHeight;
+                    }
+                }
+                // Clean up threadloaf container when switching to chat view
+                const threadloafContainer = document.getElementById("threadloaf-container");
+                if (threadloafContainer) {
+                    threadloafContainer.remove();
+                }
+                this.mountFloatButton(false);
+            }
+        };
+
+        chatOption.onclick = () => handleClick(false);
+        threadOption.onclick = () => handleClick(true);
+
+        // Append buttons in the right order
+        toggleContainer.appendChild(chatOption);
+        toggleContainer.appendChild(threadOption);
+        floatButton.appendChild(loadUpButton); // Move load button to start
+        floatButton.appendChild(toggleContainer);
+        floatButton.appendChild(newestButton); // Add newest button at the end
+        if (isThreadView && this.unreadCount > 0) {
+            floatButton.appendChild(this.createMarkReadButton());
+        }
+        if (isThreadView && this.state.focusedMessageId) {
+            floatButton.appendChild(this.createExitFocusButton());
+        }
+        if (isThreadView && this.state.channelId) {
+            floatButton.appendChild(this.createChannelOptions());
+        }
+        scope.mount(floatButton, document.body);
+
+        // Position the button initially
+        this.updateFloatButtonPosition();
+
+        // Set up resize observer for the channel container
+        const channelContainer = this.state.threadContainer?.closest('div[class*="chat_"]');
+        if (channelContainer) {
+            const resizeObserver = scope.observe(
+                new ResizeObserver(() => {
+                    this.updateFloatButtonPosition();
+                }),
+            );
+            resizeObserver.observe(channelContainer);
+        }
+
+        // Also handle window resize
+        scope.listen(window, "resize", () => {
+            this.updateFloatButtonPosition();
+        });
+    }
+
+    private createThreadloafContainer(): HTMLElement {
+        const threadloafContainer = document.createElement("div");
+        threadloafContainer.id = "threadloaf-container";
+
+        const threadContent = document.createElement("div");
+        threadContent.id = "threadloaf-content";
+        threadloafContainer.appendChild(threadContent);
+
+        const messageThread = document.createElement("div");
+        messageThread.classList.add("message-thread");
+        threadContent.appendChild(messageThread);
+
+        return threadloafContainer;
+    }
+
     private createLoadUpButton(): HTMLButtonElement {
         const loadUpButton = document.createElement("button");
         loadUpButton.className = "load-up-button";
@@ -419,47 +696,11 @@ export class ThreadRenderer {
         loadUpButton.onclick = async () => {
             if (isLoading) return;
 
-            const scrollerElement = this.state.threadContainer?.closest('div[class*="scroller_"]');
-            if (!scrollerElement) return;
-
             isLoading = true;
             this.state.isLoadingMore = true; // Set flag before loading
             loadUpButton.disabled = this.state.isTopLoaded;
 
-            // If we're in thread view, temporarily switch to chat view
-            const wasInThreadView = this.state.isThreadViewActive;
-            if (wasInThreadView) {
-                // Switch to chat view
-                this.state.threadContainer!.style.display = "block";
-                const threadloafContainer = document.getElementById("threadloaf-container");
-                if (threadloafContainer) {
-                    threadloafContainer.remove();
-                }
-                // Remove our scroll override
-                const scrollerClass = Array.from(scrollerElement.classList).find((className) =>
-                    className.startsWith("scroller_"),
-                );
-                if (scrollerClass) {
-                    this.domMutator.removeScrollerStyle(scrollerClass);
-                }
-            }
-
-            // Scroll and dispatch event
-            scrollerElement.scrollTo({ top: 0 });
-            const scrollEvent = new Event("scroll", {
-                bubbles: true,
-                cancelable: true,
-            });
-            scrollerElement.dispatchEvent(scrollEvent);
-
-            // Wait a bit for the load to happen
-            await new Promise((resolve) => setTimeout(resolve, 500));
-
-            // Switch back to thread view if we were in it
-            if (wasInThreadView) {
-                this.state.isThreadViewActive = true;
-                this.renderThread();
-            }
+            await this.loadEarlierMessages();
 
             // Re-enable after a delay
             setTimeout(() => {
@@ -472,6 +713,68 @@ export class ThreadRenderer {
         return loadUpButton;
     }
 
+    // Ask Discord to load earlier messages by scrolling its own scroller to the top
+    private async loadEarlierMessages(): Promise<void> {
+        const scrollerElement = this.state.threadContainer?.closest('div[class*="scroller_"]');
+        if (!scrollerElement) return;
+
+        // If we're in thread view, temporarily switch to chat view
+        const wasInThreadView = this.state.isThreadViewActive;
+        if (wasInThreadView) {
+            // Switch to chat view
+            this.state.threadContainer!.style.display = "block";
+            const threadloafContainer = document.getElementById("threadloaf-container");
+            if (threadloafContainer) {
+                threadloafContainer.remove();
+            }
+            // Remove our scroll override
+            const scrollerClass = Array.from(scrollerElement.classList).find((className) =>
+                className.startsWith("scroller_"),
+            );
+            if (scrollerClass) {
+                this.domMutator.removeScrollerStyle(scrollerClass);
+            }
+        }
+
+        // Scroll and dispatch event
+        scrollerElement.scrollTo({ top: 0 });
+        const scrollEvent = new Event("scroll", {
+            bubbles: true,
+            cancelable: true,
+        });
+        scrollerElement.dispatchEvent(scrollEvent);
+
+        // Wait a bit for the load to happen
+        await new Promise((resolve) => setTimeout(resolve, 500));
+
+        // Switch back to thread view if we were in it
+        if (wasInThreadView) {
+            this.state.isThreadViewActive = true;
+            this.renderThread();
+        }
+    }
+
+    // Keep loading earlier messages until the given message is in the DOM, then expand it
+    private async loadUntilMessageLoaded(messageId: string): Promise<void> {
+        if (this.state.isLoadingMore) return;
+
+        const MAX_ATTEMPTS = 25;
+        const isLoaded = () => !!this.state.threadContainer?.querySelector(`li[id$="-${messageId}"]`);
+
+        this.state.isLoadingMore = true;
+        try {
+            for (let attempt = 0; attempt < MAX_ATTEMPTS && !isLoaded() && !this.state.isTopLoaded; attempt++) {
+                await this.loadEarlierMessages();
+            }
+        } finally {
+            this.state.isLoadingMore = false;
+        }
+
+        if (this.threadList.canExpand(messageId)) {
+            this.threadList.expandMessage(messageId, "auto");
+        }
+    }
+
     private createNewestButton(): HTMLButtonElement {
         const newestButton = document.createElement("button");
         newestButton.className = "newest-button";
@@ -480,18 +783,7 @@ export class ThreadRenderer {
 
         newestButton.onclick = () => {
             if (this.state.isThreadViewActive) {
-                // In Thread mode:
-                // 1. Collapse any expanded message
-                const expandedMessage = document.querySelector(".threadloaf-message.expanded");
-                if (expandedMessage) {
-                    expandedMessage.classList.remove("expanded");
-                    const previewContainer = expandedMessage.querySelector(".preview-container") as HTMLElement;
-                    const fullContent = expandedMessage.querySelector(".full-content") as HTMLElement;
-                    if (previewContainer) previewContainer.style.display = "flex";
-                    if (fullContent) fullContent.style.display = "none";
-                }
-
-                // 2. Scroll to newest message and expand it
+                // In Thread mode: scroll to newest message and expand it instead of whatever was expanded
                 this.scrollToNewestMessage(true);
             } else {
                 // In Chat mode: scroll the original chat container to bottom
@@ -507,6 +799,104 @@ export class ThreadRenderer {
         return newestButton;
     }
 
+    // Shows how many messages are left to read, and marks them all read when clicked
+    private createMarkReadButton(): HTMLButtonElement {
+        const markReadButton = document.createElement("button");
+        markReadButton.className = "mark-read-button";
+        markReadButton.textContent = `✓ ${this.unreadCount} unread`;
+        markReadButton.title = "Mark all as read";
+
+        markReadButton.onclick = () => {
+            // Include the messages in collapsed branches, deep branches, and outside the focus, which have no rows
+            const channelId = this.domParser.findChannelId();
+            const newestTimestamp = Array.from(this.treeMessagesById.values())
+                .filter((message) => !message.isGhost && !message.kind && !message.isDeleted)
+                .reduce<number | null>(
+                    (newest, message) => (newest === null ? message.timestamp : Math.max(newest, message.timestamp)),
+                    null,
+                );
+            if (channelId && newestTimestamp !== null) {
+                this.unreadTracker.markAllRead(channelId, newestTimestamp);
+                this.renderThread();
+            }
+        };
+
+        return markReadButton;
+    }
+
+    // Display options for the current channel; like the view mode, they also become the server's default
+    private createChannelOptions(): HTMLElement {
+        const channelOptions = document.createElement("div");
+        channelOptions.className = "channel-options";
+
+        const panel = document.createElement("div");
+        panel.className = "channel-options-panel";
+        panel.hidden = !this.isChannelOptionsOpen;
+        panel.appendChild(
+            this.createChannelOption("Show system messages", this.state.settings.showSystemMessages, (checked) => ({
+                showSystemMessages: checked,
+            })),
+        );
+        panel.appendChild(
+            this.createChannelOption(
+                "Hide deleted messages without replies",
+                this.state.settings.pruneChildlessTombstones,
+                (checked) => ({ pruneChildlessTombstones: checked }),
+            ),
+        );
+
+        const optionsButton = document.createElement("button");
+        optionsButton.className = "channel-options-button";
+        optionsButton.textContent = "⚙";
+        optionsButton.title = "Display options for this channel";
+        optionsButton.onclick = () => {
+            this.isChannelOptionsOpen = !this.isChannelOptionsOpen;
+            panel.hidden = !this.isChannelOptionsOpen;
+        };
+
+        channelOptions.appendChild(optionsButton);
+        channelOptions.appendChild(panel);
+        return channelOptions;
+    }
+
+    private createChannelOption(
+        label: string,
+        checked: boolean,
+        toPreferences: (checked: boolean) => DisplayPreferences,
+    ): HTMLElement {
+        const option = document.createElement("label");
+        const checkbox = document.createElement("input");
+        checkbox.type = "checkbox";
+        checkbox.checked = checked;
+        checkbox.onchange = () => this.setChannelPreferences(toPreferences(checkbox.checked));
+        option.appendChild(checkbox);
+        option.appendChild(document.createTextNode(label));
+        return option;
+    }
+
+    // Remember display preferences for the current channel and show it with them right away
+    private setChannelPreferences(preferences: DisplayPreferences): void {
+        const channelId = this.state.channelId;
+        if (!channelId) return;
+
+        const guildId = this.domParser.findRouteGuildId();
+        this.preferenceStore.setChannelPreferences(guildId, channelId, preferences);
+        this.state.settings = PreferenceStore.applyPreferences(
+            this.state.baseSettings,
+            this.preferenceStore.getPreferences(guildId, channelId),
+        );
+        this.renderThread();
+    }
+
+    private createExitFocusButton(): HTMLButtonElement {
+        const exitFocusButton = document.createElement("button");
+        exitFocusButton.className = "exit-focus-button";
+        exitFocusButton.textContent = "✕ Exit focus";
+        exitFocusButton.title = "Show the whole thread (Esc)";
+        exitFocusButton.onclick = () => this.exitFocus();
+        return exitFocusButton;
+    }
+
     private updateFloatButtonPosition(): void {
         const floatButton = document.getElementById("threadloaf-float-button");
         const channelContainer = this.state.threadContainer?.closest('div[class*="chat_"]');
@@ -521,23 +911,24 @@ export class ThreadRenderer {
     private scrollToNewestMessage(shouldExpand: boolean = false): void {
         if (!this.state.newestMessageId) return;
 
-        // Find the newest message by its ID
-        const newestMessage = document.querySelector(
-            `.threadloaf-message[data-msg-id="${this.state.newestMessageId}"]`,
-        ) as HTMLElement;
-
-        if (newestMessage) {
-            if (shouldExpand) {
-                // Expand the newest message
-                newestMessage.classList.add("expanded");
-                const previewContainer = newestMessage.querySelector(".preview-container") as HTMLElement;
-                const fullContent = newestMessage.querySelector(".full-content") as HTMLElement;
-                if (previewContainer) previewContainer.style.display = "none";
-                if (fullContent) fullContent.style.display = "block";
-            }
+        // Expanding the newest message brings the branch it's in into view. Otherwise, or if it's nested too
+        // deeply to show, scroll to the closest message above it that is shown.
+        const newestMessageId = this.state.newestMessageId;
+        if (shouldExpand) {
+            this.revealMessage(newestMessageId);
+        }
+        let targetId = newestMessageId;
+        while (!this.threadList.hasMessage(targetId) && this.treeParents.has(targetId)) {
+            targetId = this.treeParents.get(targetId)!;
+        }
 
-            // Scroll to show it (without animation)
-            newestMessage.scrollIntoView({ behavior: "auto", block: "center" });
+        if (this.threadList.hasMessage(targetId)) {
+            // Scroll to show it (without animation), mounting it first if needed
+            if (shouldExpand && targetId === newestMessageId) {
+                this.threadList.expandMessage(newestMessageId, "auto");
+            } else {
+                this.threadList.scrollToMessage(targetId, "auto");
+            }
             // Clear any pending scroll
             this.state.pendingScrollToNewest = null;
         } else {
@@ -0,0 +1,304 @@
+import { assertEqual, createMessage, deepEqual, Test } from "./test_utils";
+import { DomMutator } from "./DomMutator";
+import { DomParser } from "./DomParser";
+import { EditHistory } from "./EditHistory";
+import { Lifecycle } from "./Lifecycle";
+import { MessageInfo } from "./MessageInfo";
+import { MessageParser } from "./MessageParser";
+import { MessageReconciler } from "./MessageReconciler";
+import { MessageTreeBuilder } from "./MessageTreeBuilder";
+import { MutationClassifier } from "./MutationClassifier";
+import { PreferenceStore } from "./PreferenceStore";
+import { ThreadloafState } from "./ThreadloafState";
+import { ThreadRenderer } from "./ThreadRenderer";
+import { TombstoneTracker } from "./TombstoneTracker";
+import { UnreadTracker } from "./UnreadTracker";
+import { VirtualThreadList } from "./VirtualThreadList";
+
+interface RenderedThread {
+    renderer: ThreadRenderer;
+    state: ThreadloafState;
+    threadList: VirtualThreadList;
+    chat: HTMLElement;
+    lifecycle: Lifecycle;
+}
+
+export class ThreadRendererTest {
+    // A1
+    // ├ B1
+    // │ └ A2
+    // │   └ B2
+    // └ C1
+    //   └ E1
+    // D1
+    private messages(): MessageInfo[] {
+        return [
+            createMessage("A1", "alice", 0),
+            createMessage("B1", "bob", 1, { parentId: "A1" }),
+            createMessage("A2", "alice", 2, { parentId: "B1" }),
+            createMessage("B2", "bob", 3, { parentId: "A2" }),
+            createMessage("C1", "carol", 4, { parentId: "A1" }),
+            createMessage("D1", "dave", 5),
+            createMessage("E1", "erin", 6, { parentId: "C1" }),
+        ];
+    }
+
+    // Render the messages in thread view, wired up the way the content script does it. Parsing Discord's markup
+    // is covered by MessageParserTest, so the parser hands out copies of the messages instead. Disposing the
+    // lifecycle takes everything off the page again.
+    private render(messages: MessageInfo[], configure: (state: ThreadloafState) => void = () => {}): RenderedThread {
+        const state = new ThreadloafState();
+        state.isThreadViewActive = true;
+        configure(state);
+
+        const lifecycle = new Lifecycle();
+        const chat = lifecycle.mount(document.createElement("div"), document.body);
+        const threadContainer = document.createElement("ol");
+        messages.forEach((message) => {
+            const li = document.createElement("li");
+            li.id = `chat-messages-9-${message.id}`;
+            threadContainer.appendChild(li);
+        });
+        chat.appendChild(threadContainer);
+        state.threadContainer = threadContainer;
+
+        const messageParser = new MessageParser();
+        messageParser.parseMessages = () => messages.map((message) => ({ ...message }));
+        const threadList = new VirtualThreadList(state, new MessageReconciler(state));
+        const domMutator = new DomMutator(state, threadList, lifecycle);
+        const renderer = new ThreadRenderer(
+            state,
+            new DomParser(domMutator, state, lifecycle, new MutationClassifier()),
+            domMutator,
+            messageParser,
+            new MessageTreeBuilder(),
+            new EditHistory(),
+            new TombstoneTracker(),
+            threadList,
+            lifecycle,
+            new PreferenceStore(null),
+            new UnreadTracker(null),
+        );
+        renderer.renderThread();
+        return { renderer, state, threadList, chat, lifecycle };
+    }
+
+    // Reduce the rendered rows to their IDs and how deeply each is nested
+    private shape({ chat }: RenderedThread): string[] {
+        return Array.from(chat.querySelector(".message-thread")!.children).map((rowEl) => {
+            const id = (rowEl.querySelector("[data-msg-id]") as HTMLElement).dataset.msgId;
+            return `${id}:${rowEl.querySelectorAll(".threadline").length}`;
+        });
+    }
+
+    private findElement({ chat }: RenderedThread, id: string): HTMLElement {
+        return chat.querySelector(`.message-thread [data-msg-id="${id}"]`) as HTMLElement;
+    }
+
+    async getTests(): Promise<Test[]> {
+        return [
+            {
+                name: "collapsing a message hides its replies and counts them",
+                fn: () => {
+                    const thread = this.render(this.messages());
+                    try {
+                        deepEqual(this.shape(thread), ["A1:0", "B1:1", "A2:2", "B2:3", "C1:1", "E1:2", "D1:0"]);
+
+                        (this.findElement(thread, "B1").querySelector(".collapse-toggle") as HTMLElement).click();
+                        deepEqual(this.shape(thread), ["A1:0", "B1:1", "C1:1", "E1:2", "D1:0"]);
+                        assertEqual(
+                            this.findElement(thread, "B1").querySelector(".reply-count")?.textContent,
+                            "(+2 replies)",
+                        );
+
+                        // The count covers every reply below, not just the direct ones
+                        (this.findElement(thread, "A1").querySelector(".collapse-toggle") as HTMLElement).click();
+                        deepEqual(this.shape(thread), ["A1:0", "D1:0"]);
+                        assertEqual(
+                            this.findElement(thread, "A1").querySelector(".reply-count")?.textContent,
+                            "(+5 replies)",
+                        );
+
+                        // Showing the replies again brings back the branch below, as it was left
+                        (this.findElement(thread, "A1").querySelector(".collapse-toggle") as HTMLElement).click();
+                        deepEqual(this.shape(thread), ["A1:0", "B1:1", "C1:1", "E1:2", "D1:0"]);
+                    } finally {
+                        thread.lifecycle.dispose();
+                    }
+                },
+            },
+            {
+                name: "collapsing other branches keeps the way to the expanded message open",
+                fn: () => {
+                    const thread = this.render(this.messages());
+                    try {
+                        thread.threadList.expandMessage("A2");
+                        assertEqual(thread.renderer.collapseOtherBranches(), true);
+                        deepEqual(this.shape(thread), ["A1:0", "B1:1", "A2:2", "B2:3", "C1:1", "D1:0"]);
+                        assertEqual(
+                            this.findElement(thread, "C1").querySelector(".reply-count")?.textContent,
+                            "(+1 reply)",
+                        );
+                        assertEqual(thread.state.expandedMessageId, "A2");
+
+                        assertEqual(thread.renderer.collapseOtherBranches(), false);
+                    } finally {
+                        thread.lifecycle.dispose();
+                    }
+                },
+            },
+            {
+                name: "with nothing expanded, collapsing other branches collapses everything",
+                fn: () => {
+                    const thread = this.render(this.messages());
+                    try {
+                        assertEqual(thread.renderer.collapseOtherBranches(), true);
+                        deepEqual(this.shape(thread), ["A1:0", "D1:0"]);
+
+                        assertEqual(thread.renderer.expandAllBranches(), true);
+                        deepEqual(this.shape(thread), ["A1:0", "B1:1", "A2:2", "B2:3", "C1:1", "E1:2", "D1:0"]);
+                        assertEqual(thread.renderer.expandAllBranches(), false);
+                    } finally {
+                        thread.lifecycle.dispose();
+                    }
+                },
+            },
+            {
+                name: "replies nested deeper than the limit continue in a thread of their own",
+                fn: () => {
+                    const thread = this.render(this.messages(), (state) => {
+                        state.settings.continueThreadDepth = 2;
+                    });
+                    try {
+                        deepEqual(this.shape(thread), ["A1:0", "B1:1", "A2:2", "C1:1", "E1:2", "D1:0"]);
+                        const continueThread = this.findElement(thread, "A2").querySelector(".continue-thread");
+                        assertEqual(continueThread?.textContent, "Continue this thread →");
+                        assertEqual(this.findElement(thread, "E1").querySelector(".continue-thread"), null);
+                    } finally {
+                        thread.lifecycle.dispose();
+                    }
+                },
+            },
+            {
+                name: "continuing a thread shows the branch from its message, with the limit counted from there",
+                fn: () => {
+                    const thread = this.render(this.messages(), (state) => {
+                        state.settings.continueThreadDepth = 1;
+                    });
+                    try {
+                        deepEqual(this.shape(thread), ["A1:0", "B1:1", "C1:1", "D1:0"]);
+
+                        (this.findElement(thread, "B1").querySelector(".continue-thread") as HTMLElement).click();
+                        assertEqual(thread.state.viewRootId, "B1");
+                        deepEqual(this.shape(thread), ["B1:0", "A2:1"]);
+
+                        (this.findElement(thread, "A2").querySelector(".continue-thread") as HTMLElement).click();
+                        assertEqual(thread.state.viewRootId, "A2");
+                        deepEqual(this.shape(thread), ["A2:0", "B2:1"]);
+                    } finally {
+                        thread.lifecycle.dispose();
+                    }
+                },
+            },
+            {
+                name: "a branch whose message is gone goes back to the whole thread",
+                fn: () => {
+                    const thread = this.render(this.messages(), (state) => {
+                        state.viewRootId = "X";
+                    });
+                    try {
+                        assertEqual(thread.state.viewRootId, null);
+                        deepEqual(this.shape(thread), ["A1:0", "B1:1", "A2:2", "B2:3", "C1:1", "E1:2", "D1:0"]);
+                    } finally {
+                        thread.lifecycle.dispose();
+                    }
+                },
+            },
+            {
+                name: "focusing a message shows only the messages above it and its replies",
+                fn: () => {
+                    const thread = this.render(this.messages());
+                    try {
+                        assertEqual(thread.renderer.focusMessage("B1"), true);
+                        deepEqual(this.shape(thread), ["A1:0", "B1:1", "A2:2", "B2:3"]);
+                        assertEqual(!!document.querySelector("#threadloaf-float-button .exit-focus-button"), true);
+                        assertEqual(thread.renderer.focusMessage("B1"), false);
+
+                        assertEqual(thread.renderer.exitFocus(), true);
+                        deepEqual(this.shape(thread), ["A1:0", "B1:1", "A2:2", "B2:3", "C1:1", "E1:2", "D1:0"]);
+                        assertEqual(document.querySelector("#threadloaf-float-button .exit-focus-button"), null);
+                        assertEqual(thread.renderer.exitFocus(), false);
+                    } finally {
+                        thread.lifecycle.dispose();
+                    }
+                },
+            },
+            {
+                name: "focusing a message opens the collapsed branches it's in",
+                fn: () => {
+                    const thread = this.render(this.messages());
+                    try {
+                        (this.findElement(thread, "A1").querySelector(".collapse-toggle") as HTMLElement).click();
+                        thread.renderer.focusMessage("A2");
+                        deepEqual(this.shape(thread), ["A1:0", "B1:1", "A2:2", "B2:3"]);
+                    } finally {
+                        thread.lifecycle.dispose();
+                    }
+                },
+            },
+            {
+                name: "jumping to the newest message reveals it outside the focus and in collapsed branches",
+                fn: () => {
+                    const thread = this.render(this.messages());
+                    try {
+                        (this.findElement(thread, "C1").querySelector(".collapse-toggle") as HTMLElement).click();
+                        thread.renderer.focusMessage("D1");
+                        deepEqual(this.shape(thread), ["D1:0"]);
+
+                        (document.querySelector("#threadloaf-float-button .newest-button") as HTMLElement).click();
+                        assertEqual(thread.state.focusedMessageId, null);
+                        assertEqual(thread.state.expandedMessageId, "E1");
+                        deepEqual(this.shape(thread), ["A1:0", "B1:1", "A2:2", "B2:3", "C1:1", "E1:2", "D1:0"]);
+                    } finally {
+                        thread.lifecycle.dispose();
+                    }
+                },
+            },
+            {
+                name: "the breadcrumb leads back out of a branch through the messages above it",
+                fn: () => {
+                    const thread = this.render(this.messages(), (state) => {
+                        state.settings.continueThreadDepth = 1;
+                    });
+                    const crumbs = () =>
+                        Array.from(thread.chat.querySelectorAll<HTMLElement>(".thread-breadcrumb .crumb")).map(
+                            (crumb) =>
+                                crumb.classList.contains("current") ? `[${crumb.textContent}]` : crumb.textContent,
+                        );
+                    const clickCrumb = (label: string) =>
+                        Array.from(thread.chat.querySelectorAll<HTMLElement>(".thread-breadcrumb .crumb"))
+                            .find((crumb) => crumb.textContent === label)!
+                            .click();
+                    try {
+                        deepEqual(crumbs(), []);
+
+                        (this.findElement(thread, "B1").querySelector(".continue-thread") as HTMLElement).click();
+                        deepEqual(crumbs(), ["All messages", "alice: A1", "[bob: B1]"]);
+
+                        clickCrumb("alice: A1");
+                        assertEqual(thread.state.viewRootId, "A1");
+                        deepEqual(this.shape(thread), ["A1:0", "B1:1", "C1:1"]);
+                        deepEqual(crumbs(), ["All messages", "[alice: A1]"]);
+
+                        clickCrumb("All messages");
+                        assertEqual(thread.state.viewRootId, null);
+                        deepEqual(this.shape(thread), ["A1:0", "B1:1", "C1:1", "D1:0"]);
+                        deepEqual(crumbs(), []);
+                    } finally {
+                        thread.lifecycle.dispose();
+                    }
+                },
+            },
+        ];
+    }
+}
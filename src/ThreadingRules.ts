@@ -0,0 +1,192 @@
+import { MessageInfo } from "./MessageInfo";
+import { ThreadloafSettings } from "./ThreadloafSettings";
+
+/**
+ * A rule's decision about where a message belongs in the tree.
+ */
+export interface ParentClaim {
+    parent: MessageInfo | null; // Parent to attach to, or null to place the message at the root
+    reason: string; // Human-readable explanation shown in the UI
+}
+
+/**
+ * Everything a rule may look at while placing one message. Messages earlier in
+ * sortedMessages have already been placed.
+ */
+export interface ThreadingContext {
+    sortedMessages: MessageInfo[]; // All messages in chronological order
+    index: number; // Position of the message being placed in sortedMessages
+    settings: ThreadloafSettings;
+    findMessage(id: string): MessageInfo | undefined; // Looks up loaded messages and placeholders
+    getGhostParent(parentId: string, reply: MessageInfo): MessageInfo; // Placeholder for an unloaded parent
+}
+
+/**
+ * A single step in the threading pipeline. Rules are evaluated in order and the
+ * first one that returns a claim decides where the message goes.
+ */
+export interface ThreadingRule {
+    readonly id: string; // Stable ID used in settings and recorded on placed messages
+    readonly name: string; // Short name for settings UI
+    readonly isInference: boolean; // Whether this rule guesses at replies Discord doesn't record
+    claimParent(message: MessageInfo, context: ThreadingContext): ParentClaim | null;
+}
+
+// Compare authors by user ID when both are known, since different users can share a display name
+function isSameAuthor(a: MessageInfo, b: MessageInfo): boolean {
+    if (a.authorId && b.authorId) {
+        return a.authorId === b.authorId;
+    }
+    return a.author === b.author;
+}
+
+/**
+ * Keeps system events (boosts, title changes, ...) on the main timeline, except pin
+ * notices, which go under the message that was pinned when it is loaded.
+ */
+export class SystemEventRule implements ThreadingRule {
+    public readonly id = "systemEvent";
+    public readonly name = "System events stay on the timeline";
+    public readonly isInference = false;
+
+    public claimParent(message: MessageInfo, context: ThreadingContext): ParentClaim | null {
+        if (!message.kind) return null;
+
+        if (message.kind.type === "pin" && message.kind.pinnedMessageId) {
+            const pinned = context.findMessage(message.kind.pinnedMessageId);
+            if (pinned && !pinned.isGhost) {
+                return { parent: pinned, reason: `Pin notice for ${pinned.author}'s message` };
+            }
+        }
+
+        return { parent: null, reason: "System event, so it stays on the main timeline" };
+    }
+}
+
+/**
+ * Honors Discord's own reply feature. Replies to messages that aren't loaded are
+ * attached to a placeholder built from the reply preview.
+ */
+export class ExplicitReplyRule implements ThreadingRule {
+    public readonly id = "explicitReply";
+    public readonly name = "Explicit replies";
+    public readonly isInference = false;
+
+    public claimParent(message: MessageInfo, context: ThreadingContext): ParentClaim | null {
+        if (!message.parentId) return null;
+
+        const parent = context.findMessage(message.parentId);
+        if (parent && !parent.isGhost) {
+            return { parent, reason: `Reply to ${parent.author}` };
+        }
+
+        const ghost = parent || context.getGhostParent(message.parentId, message);
+        return { parent: ghost, reason: `Reply to ${ghost.author}'s message, which isn't loaded yet` };
+    }
+}
+
+/**
+ * Groups multi-message posts: a message from the same author as the immediately
+ * preceding message, within the configured window, shares that message's parent.
+ */
+export class SameAuthorRule implements ThreadingRule {
+    public readonly id = "sameAuthor";
+    public readonly name = "Same author continues previous message";
+    public readonly isInference = false;
+
+    public claimParent(message: MessageInfo, context: ThreadingContext): ParentClaim | null {
+        const previousMessage = context.index > 0 ? context.sortedMessages[context.index - 1] : null;
+        if (!previousMessage || !isSameAuthor(previousMessage, message)) return null;
+        if (message.kind || previousMessage.kind) return null; // System events don't continue anything
+
+        const windowMinutes = context.settings.sameAuthorWindowMinutes;
+        if (message.timestamp - previousMessage.timestamp > windowMinutes * 60 * 1000) return null;
+
+        const parent = previousMessage.parentId ? context.findMessage(previousMessage.parentId) : undefined;
+        const reason = `Continues ${message.author}'s previous message (within ${windowMinutes} min)`;
+        return { parent: parent || null, reason };
+    }
+}
+
+/**
+ * Treats a message that links to an earlier message in the same channel as a reply
+ * to it, as long as that message is loaded.
+ */
+export class MessageLinkRule implements ThreadingRule {
+    public readonly id = "messageLink";
+    public readonly name = "Message links reply to the linked message";
+    public readonly isInference = true;
+
+    public claimParent(message: MessageInfo, context: ThreadingContext): ParentClaim | null {
+        for (const linkedId of message.linkedMessageIds || []) {
+            const linked = context.findMessage(linkedId);
+            if (linked && !linked.isGhost && linked.timestamp <= message.timestamp) {
+                return { parent: linked, reason: `Links to ${linked.author}'s message, so inferred as a reply to it` };
+            }
+        }
+
+        return null;
+    }
+}
+
+/**
+ * Treats a message that starts with a "> quote" of an earlier message's text as a
+ * reply to the most recent message containing that text.
+ */
+export class QuoteRule implements ThreadingRule {
+    public readonly id = "quote";
+    public readonly name = "Quote blocks reply to the quoted message";
+    public readonly isInference = true;
+
+    private static readonly MIN_QUOTE_LENGTH = 3;
+
+    public claimParent(message: MessageInfo, context: ThreadingContext): ParentClaim | null {
+        const quote = this.normalize(message.quotedText || "");
+        if (quote.length < QuoteRule.MIN_QUOTE_LENGTH) return null;
+
+        for (let i = context.index - 1; i >= 0; i--) {
+            // Skip earlier messages that quote the same text themselves, so chains land on the original
+            const candidate = context.sortedMessages[i];
+            if (this.normalize(candidate.quotedText || "").includes(quote)) continue;
+            if (this.normalize(candidate.content).includes(quote)) {
+                return {
+                    parent: candidate,
+                    reason: `Quotes ${candidate.author}'s message, so inferred as a reply to it`,
+                };
+            }
+        }
+
+        return null;
+    }
+
+    private normalize(text: string): string {
+        return text.replace(/\s+/g, " ").trim().toLowerCase();
+    }
+}
+
+/**
+ * Treats a message that starts with "@name" as a reply to that user's most recent
+ * earlier message, within the configured window.
+ */
+export class MentionRule implements ThreadingRule {
+    public readonly id = "mention";
+    public readonly name = "Leading @mention replies to that user";
+    public readonly isInference = true;
+
+    public claimParent(message: MessageInfo, context: ThreadingContext): ParentClaim | null {
+        const target = message.mentions?.[0];
+        if (!target || target === message.author || !message.content.startsWith(`@${target}`)) return null;
+
+        // Discord's mention markup carries only the display name, not the user ID, so that's what is matched
+        const windowMs = context.settings.mentionWindowMinutes * 60 * 1000;
+        for (let i = context.index - 1; i >= 0; i--) {
+            const candidate = context.sortedMessages[i];
+            if (message.timestamp - candidate.timestamp > windowMs) break;
+            if (candidate.author === target) {
+                return { parent: candidate, reason: `Starts with @${target}, so inferred as a reply to them` };
+            }
+        }
+
+        return null;
+    }
+}
@@ -1,31 +1,70 @@
 import { DomParser } from "./DomParser";
-import { MessageInfo } from "./MessageInfo";
 import { ThreadloafState } from "./ThreadloafState";
 import { ThreadRenderer } from "./ThreadRenderer";
 import { DomMutator } from "./DomMutator";
 import { DebouncedMutationObserver } from "./DebouncedMutationObserver";
+import { VirtualThreadList } from "./VirtualThreadList";
+import { Lifecycle } from "./Lifecycle";
+import { ThreadEventBus } from "./ThreadEvents";
+import { PreferenceStore } from "./PreferenceStore";
+import { SettingsStore } from "./SettingsStore";
+import { ThreadloafSettings } from "./ThreadloafSettings";
+import { UnreadTracker } from "./UnreadTracker";
 
 /**
  * Main entry point and controller for the Threadloaf extension.
  * Coordinates between different components to initialize the extension,
  * set up observers and event handlers, and manage the overall flow
- * of the application. Handles setup of keyboard navigation and polling
- * for Discord's dynamic content loading.
+ * of the application. Handles setup of keyboard navigation and watches
+ * for navigation between channels in Discord's single-page app.
  */
 export class Threadloaf {
     private state: ThreadloafState;
     private domParser: DomParser;
     private domMutator: DomMutator;
     private threadRenderer: ThreadRenderer;
+    private threadList: VirtualThreadList;
+    private lifecycle: Lifecycle;
+    private threadEvents: ThreadEventBus;
+    private preferenceStore: PreferenceStore;
+    private settingsStore: SettingsStore;
+    private unreadTracker: UnreadTracker;
 
-    constructor(state: ThreadloafState, domParser: DomParser, domMutator: DomMutator, threadRenderer: ThreadRenderer) {
+    constructor(
+        state: ThreadloafState,
+        domParser: DomParser,
+        domMutator: DomMutator,
+        threadRenderer: ThreadRenderer,
+        threadList: VirtualThreadList,
+        lifecycle: Lifecycle,
+        threadEvents: ThreadEventBus,
+        preferenceStore: PreferenceStore,
+        settingsStore: SettingsStore,
+        unreadTracker: UnreadTracker,
+    ) {
         this.state = state;
         this.domParser = domParser;
         this.domMutator = domMutator;
         this.threadRenderer = threadRenderer;
+        this.threadList = threadList;
+        this.lifecycle = lifecycle;
+        this.threadEvents = threadEvents;
+        this.preferenceStore = preferenceStore;
+        this.settingsStore = settingsStore;
+        this.unreadTracker = unreadTracker;
         this.initialize();
     }
 
+    // Remove everything Threadloaf added to the page and give Discord its own view back, without a reload
+    public uninstall(): void {
+        this.lifecycle.dispose();
+        this.state.observer = null;
+        this.state.headerObserver = null;
+        this.state.threadContainer = null;
+        this.state.channelId = null;
+        this.state.appContainer = null;
+    }
+
     // Entry point for initialization
     private initialize(): void {
         this.state.appContainer = this.domParser.findAppContainer();
@@ -33,40 +72,129 @@ export class Threadloaf {
             console.error("Threadloaf: Failed to find app container. Aborting initialization.");
             return;
         }
+        // Runs last on uninstall, once nothing is left to re-render the thread view
+        this.lifecycle.onDispose(() => this.threadRenderer.unmount());
+
         this.domMutator.injectStyles();
         this.setupHeaderObserver();
-        this.domParser.setupMutationObserver(() => this.threadRenderer.renderThread());
-        this.setupPolling();
+        this.lifecycle.onDispose(this.preferenceStore.watch());
+
+        // Settings, saved preferences, and what was seen on earlier visits decide how each channel is shown, so
+        // load them before showing anything
+        const loaded = Promise.all([this.settingsStore.load(), this.preferenceStore.load(), this.unreadTracker.load()]);
+        loaded
+            .then(([settings]) => this.start(settings))
+            .catch((error) => console.error("Threadloaf: Error starting:", error));
+    }
+
+    // Everything that shows or updates the thread view, once what it depends on is loaded
+    private start(settings: ThreadloafSettings): void {
+        if (!this.state.appContainer) return; // Uninstalled in the meantime
+
+        this.state.baseSettings = settings;
+        this.state.settings = settings;
+        this.lifecycle.onDispose(this.settingsStore.subscribe((settings) => this.applySettings(settings)));
+
+        this.setupThreadEventHandlers();
+        this.domParser.setupMutationObserver(this.threadEvents);
+        this.setupNavigationWatcher();
         this.setupKeyboardNavigation();
 
-        // Find initial thread container and set up initial view
-        const initialThreadContainer = this.domParser.findThreadContainer();
-        if (initialThreadContainer) {
-            this.state.threadContainer = initialThreadContainer;
-            // Show the chat view and create float button
-            this.state.threadContainer.style.display = "block";
-            this.threadRenderer.renderThread(); // This will create the button in chat view mode
+        // Set up the initial view; if the messages haven't loaded yet, the navigation watcher picks them up later
+        this.checkForNavigation();
+    }
+
+    // React to changes in Discord's message list; changes Threadloaf makes itself never get here
+    private setupThreadEventHandlers(): void {
+        // The parse cache and reconciler keep each re-render down to the messages that changed. A new channel or
+        // message list is taken up and rendered by the navigation check; until it has switched the channel's
+        // state, the list holds messages the current state doesn't describe, so nothing is rendered.
+        const unsubscribe = this.threadEvents.subscribe(
+            [
+                "messageAdded",
+                "messageRemoved",
+                "messageEdited",
+                "reactionChanged",
+                "accessoriesChanged",
+                "historyPrepended",
+                "channelChanged",
+            ],
+            (events) => {
+                if (this.checkForNavigation()) return;
+                if (events.some((event) => event.type === "channelChanged")) return;
+                this.threadRenderer.renderThread();
+            },
+        );
+
+        this.lifecycle.onDispose(unsubscribe);
+    }
+
+    // Settings were changed on the options page or in the popup; show the change right away
+    private applySettings(settings: ThreadloafSettings): void {
+        this.state.baseSettings = settings;
+        const preferences = this.state.channelId
+            ? this.preferenceStore.getPreferences(this.domParser.findRouteGuildId(), this.state.channelId)
+            : {};
+        this.state.settings = PreferenceStore.applyPreferences(settings, preferences);
+        this.threadRenderer.renderThread();
+    }
+
+    // Discord is a single-page app, so moving between channels never reloads the page. Look for a new channel
+    // or message list regularly, and right away when the URL changes through history navigation.
+    private setupNavigationWatcher(): void {
+        this.lifecycle.setInterval(() => this.checkForNavigation(), 1000);
+        this.lifecycle.listen(window, "popstate", () => this.checkForNavigation());
+    }
+
+    // Notice when the user has moved to another channel, or Discord has replaced the message list.
+    // Returns whether the thread was re-rendered.
+    private checkForNavigation(): boolean {
+        const threadContainer = this.domParser.findThreadContainer();
+        if (!threadContainer) return false;
+
+        // Right after navigating, the list can still hold the previous channel's messages; wait for the new ones
+        const channelId = this.domParser.findChannelId(threadContainer);
+        const routeChannelId = this.domParser.findRouteChannelId();
+        if (!channelId || (routeChannelId && routeChannelId !== channelId)) return false;
+
+        if (channelId !== this.state.channelId) {
+            this.switchChannel(channelId, threadContainer);
+            return true;
+        } else if (threadContainer !== this.state.threadContainer) {
+            this.state.threadContainer = threadContainer;
+            this.threadRenderer.renderThread();
+            return true;
         }
+        return false;
     }
 
-    // Fallback: Polling to handle delayed loading or missed events
-    private setupPolling(): void {
-        let attempts = 0;
-        const maxAttempts = 30; // Try for 30 seconds
-        const interval = setInterval(() => {
-            attempts++;
-            const newThreadContainer = this.domParser.findThreadContainer();
+    // Put away the view of the channel we're leaving and show the one we're entering the way it was left
+    private switchChannel(channelId: string, threadContainer: HTMLElement): void {
+        const scrollAnchor = this.state.isThreadViewActive ? this.threadList.getScrollAnchor() : null;
+        const previousScrollerClass = this.state.threadContainer
+            ? this.domParser.findScrollerClass(this.state.threadContainer)
+            : null;
 
-            if (newThreadContainer && newThreadContainer !== this.state.threadContainer) {
-                this.state.threadContainer = newThreadContainer;
-                this.threadRenderer.renderThread();
-            }
+        this.threadRenderer.removeThreadView();
+        if (previousScrollerClass) {
+            this.domMutator.removeScrollerStyle(previousScrollerClass);
+        }
 
-            // Only stop polling if we've found messages or exceeded max attempts
-            if ((newThreadContainer && newThreadContainer.children.length > 0) || attempts >= maxAttempts) {
-                clearInterval(interval);
-            }
-        }, 1000);
+        // Channels and servers the user has set up before open the way they left them, and others in the
+        // default view
+        const preferences = this.preferenceStore.getPreferences(this.domParser.findRouteGuildId(), channelId);
+        const viewMode = preferences.viewMode || this.state.baseSettings.defaultViewMode;
+        this.state.switchChannel(channelId, scrollAnchor, viewMode === "thread");
+        this.state.settings = PreferenceStore.applyPreferences(this.state.baseSettings, preferences);
+        this.state.threadContainer = threadContainer;
+
+        // Thread view needs Discord's own scroller kept from scrolling
+        const scrollerClass = this.domParser.findScrollerClass(threadContainer);
+        if (scrollerClass && this.state.isThreadViewActive) {
+            this.domMutator.addScrollerStyle(scrollerClass);
+        }
+
+        this.threadRenderer.renderThread();
     }
 
     private setupHeaderObserver(): void {
@@ -84,29 +212,27 @@ export class Threadloaf {
             },
         );
 
+        this.lifecycle.observe(this.state.headerObserver);
         this.state.headerObserver.observe(document.body);
     }
 
     private setupKeyboardNavigation(): void {
-        document.addEventListener(
+        this.lifecycle.listen<KeyboardEvent>(
+            document,
             "keydown",
             (e) => {
-                // Only handle A/Z if we have an expanded post
-                const expandedPost = document.querySelector(".threadloaf-message.expanded");
-                if (!expandedPost) return;
+                if (!this.state.isThreadViewActive) return;
+
+                // Leave shortcuts like copy (Ctrl+C) and find (Ctrl+F) to the browser and Discord
+                if (e.ctrlKey || e.metaKey || e.altKey) return;
 
                 // Don't handle navigation if we're typing in an input
-                const activeElement = document.activeElement;
-                if (
-                    activeElement &&
-                    (activeElement.tagName === "INPUT" ||
-                        activeElement.tagName === "TEXTAREA" ||
-                        activeElement.getAttribute("contenteditable") === "true")
-                ) {
-                    return;
-                }
+                if (Threadloaf.isEditable(e.target) || Threadloaf.isEditable(document.activeElement)) return;
 
-                if (e.key.toLowerCase() === "a" || e.key.toLowerCase() === "z") {
+                // Space and Enter press the focused button or link, so leave them to it
+                if ((e.key === " " || e.key === "Enter") && Threadloaf.isInteractive(document.activeElement)) return;
+
+                if (this.handleKey(e.key)) {
                     // Prevent the keypress from being handled by Discord
                     e.preventDefault();
                     e.stopPropagation();
@@ -114,41 +240,95 @@ export class Threadloaf {
 
                     // Keep focus on body to prevent Discord from focusing the text input
                     document.body.focus();
-
-                    // Find all messages
-                    const allMessages = Array.from(document.querySelectorAll(".threadloaf-message"));
-                    const currentIndex = allMessages.indexOf(expandedPost as HTMLElement);
-
-                    // Calculate target index
-                    let targetIndex = currentIndex;
-                    if (e.key.toLowerCase() === "a" && currentIndex > 0) {
-                        targetIndex = currentIndex - 1;
-                    } else if (e.key.toLowerCase() === "z" && currentIndex < allMessages.length - 1) {
-                        targetIndex = currentIndex + 1;
-                    }
-
-                    if (targetIndex !== currentIndex) {
-                        // Collapse current post
-                        expandedPost.classList.remove("expanded");
-                        const currentPreview = expandedPost.querySelector(".preview-container") as HTMLElement;
-                        const currentFull = expandedPost.querySelector(".full-content") as HTMLElement;
-                        if (currentPreview) currentPreview.style.display = "flex";
-                        if (currentFull) currentFull.style.display = "none";
-
-                        // Expand target post
-                        const targetPost = allMessages[targetIndex] as HTMLElement;
-                        targetPost.classList.add("expanded");
-                        const targetPreview = targetPost.querySelector(".preview-container") as HTMLElement;
-                        const targetFull = targetPost.querySelector(".full-content") as HTMLElement;
-                        if (targetPreview) targetPreview.style.display = "none";
-                        if (targetFull) targetFull.style.display = "block";
-
-                        // Scroll target into view
-                        targetPost.scrollIntoView({ behavior: "smooth", block: "center" });
-                    }
                 }
             },
             true,
         ); // Use capture phase to handle event before Discord
     }
+
+    // Act on a key pressed in thread view; returns whether it did anything, so other keys reach Discord
+    private handleKey(eventKey: string): boolean {
+        const key = eventKey.toLowerCase();
+        const { keyBindings } = this.state.settings;
+        const expandedId = this.state.expandedMessageId;
+
+        // Reading the next unread message (Space by default) and collapsing or expanding branches (C/E by default)
+        // also work with nothing expanded
+        if (key === keyBindings.nextUnread.toLowerCase()) {
+            return this.expandNextUnread();
+        }
+        if (key === keyBindings.collapseOtherBranches.toLowerCase()) {
+            return this.threadRenderer.collapseOtherBranches();
+        }
+        if (key === keyBindings.expandAllBranches.toLowerCase()) {
+            return this.threadRenderer.expandAllBranches();
+        }
+
+        // Esc leaves focus; the focus key (F by default) focuses on the expanded message, or leaves focus if
+        // that's already focused or nothing is expanded
+        if (eventKey === "Escape") {
+            return this.threadRenderer.exitFocus();
+        }
+        if (key === keyBindings.focusMessage.toLowerCase()) {
+            if (expandedId && expandedId !== this.state.focusedMessageId) {
+                return this.threadRenderer.focusMessage(expandedId);
+            }
+            return this.threadRenderer.exitFocus();
+        }
+
+        // Only handle the previous/next keys (A/Z by default) if we have an expanded post
+        const isPrevious = key === keyBindings.previousMessage.toLowerCase();
+        const isNext = key === keyBindings.nextMessage.toLowerCase();
+        if (!expandedId || (!isPrevious && !isNext)) return false;
+
+        // Find all messages, including those whose rows aren't mounted
+        const allMessages = this.threadList.getExpandableMessages();
+        const currentIndex = allMessages.findIndex((message) => message.id === expandedId);
+
+        // Calculate target index
+        let targetIndex = currentIndex;
+        if (isPrevious && currentIndex > 0) {
+            targetIndex = currentIndex - 1;
+        } else if (isNext && currentIndex < allMessages.length - 1) {
+            targetIndex = currentIndex + 1;
+        }
+
+        if (targetIndex === currentIndex || !allMessages[targetIndex]) return false;
+
+        // Expand target post in place of the current one and scroll it into view
+        this.threadList.expandMessage(allMessages[targetIndex].id, "smooth");
+        return true;
+    }
+
+    // Whether keys pressed in the element type text, e.g. Discord's message composer or the search box
+    private static isEditable(target: EventTarget | null): boolean {
+        if (!(target instanceof HTMLElement)) return false;
+        return (
+            target.tagName === "INPUT" ||
+            target.tagName === "TEXTAREA" ||
+            target.tagName === "SELECT" ||
+            target.isContentEditable ||
+            !!target.closest('[contenteditable="true"]')
+        );
+    }
+
+    // Whether the element is a control that keys like Space activate
+    private static isInteractive(target: Element | null): boolean {
+        return !!target?.closest('button, a[href], summary, [role="button"], [role="checkbox"], [role="link"]');
+    }
+
+    // Read the next unread message, newsreader style. Display order is depth-first, so the rest of the current
+    // branch comes first; after the last branch, go back around to unread branches further up. Collapsed branches
+    // are skipped, and keep showing how many new replies they hide. Returns whether there was one.
+    private expandNextUnread(): boolean {
+        const messages = this.threadList.getExpandableMessages();
+        const currentIndex = messages.findIndex((message) => message.id === this.state.expandedMessageId);
+        const ordered = [...messages.slice(currentIndex + 1), ...messages.slice(0, currentIndex + 1)];
+        const next = ordered.find((message) => message.isUnread);
+        if (!next) return false;
+
+        // Expanding marks it read
+        this.threadList.expandMessage(next.id, "smooth");
+        return true;
+    }
 }
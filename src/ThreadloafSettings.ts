@@ -0,0 +1,91 @@
+/**
+ * User-configurable settings for Threadloaf.
+ * Kept as plain data so they can be copied, compared, and persisted; the options
+ * page and popup edit them through the SettingsStore.
+ */
+export interface ThreadloafSettings {
+    enabled: boolean; // Whether Threadloaf runs on Discord at all; open tabs turn it on and off without a reload
+    enabledRules: { [ruleId: string]: boolean }; // Threading rules by ID; rules missing here are disabled
+    sameAuthorWindowMinutes: number; // Max gap between same-author messages for the same-author rule
+    mentionWindowMinutes: number; // How far back the mention rule looks for the mentioned user's message
+    showSystemMessages: boolean; // Whether boosts, pins, title changes, etc. appear in the thread view
+    pruneChildlessTombstones: boolean; // Whether deleted messages without replies are left out entirely
+    debugMode: boolean; // Whether diagnostics like parse cache hit rates are logged to the console
+    maxIndent: number; // Indent in pixels that deeply nested replies approach but never reach
+    firstLevelIndent: number; // Indent in pixels of a direct reply; deeper levels add less and less
+    maxThreadlineDepth: number; // Deepest nesting level that still gets a threadline
+    continueThreadDepth: number; // Deepest nesting level shown; deeper replies open in a view of their own
+    recencyColoring: boolean; // Whether newer messages are drawn brighter than older ones
+    recencyGradientCount: number; // How many of the newest messages fade from bright to dim
+    keyBindings: ThreadloafKeyBindings; // Keys for reading in thread view
+    defaultViewMode: "thread" | "chat"; // View for channels and servers without a remembered one
+}
+
+export interface ThreadloafKeyBindings {
+    previousMessage: string;
+    nextMessage: string;
+    nextUnread: string;
+    collapseOtherBranches: string; // Collapse everything but the branch of the expanded message
+    expandAllBranches: string;
+    focusMessage: string; // Show only the expanded message's conversation, or the whole thread again
+}
+
+// Create a fresh copy of the default settings
+export function createDefaultSettings(): ThreadloafSettings {
+    return {
+        enabled: true,
+        enabledRules: {
+            systemEvent: true,
+            explicitReply: true,
+            messageLink: false,
+            quote: false,
+            mention: false,
+            sameAuthor: true,
+        },
+        sameAuthorWindowMinutes: 3,
+        mentionWindowMinutes: 30,
+        showSystemMessages: true,
+        pruneChildlessTombstones: false,
+        debugMode: false,
+        maxIndent: 350,
+        firstLevelIndent: 40,
+        maxThreadlineDepth: 10,
+        continueThreadDepth: 10,
+        recencyColoring: true,
+        recencyGradientCount: 15,
+        keyBindings: {
+            previousMessage: "a",
+            nextMessage: "z",
+            nextUnread: " ",
+            collapseOtherBranches: "c",
+            expandAllBranches: "e",
+            focusMessage: "f",
+        },
+        defaultViewMode: "chat",
+    };
+}
+
+// Fill in whatever stored settings are missing or have the wrong type from the defaults, so that settings
+// saved by older versions, or damaged in storage, still load
+export function mergeWithDefaults(stored: unknown): ThreadloafSettings {
+    const merged = mergeObject(createDefaultSettings(), stored) as ThreadloafSettings;
+    if (merged.defaultViewMode !== "thread" && merged.defaultViewMode !== "chat") {
+        merged.defaultViewMode = "chat";
+    }
+    return merged;
+}
+
+function mergeObject(defaults: object, stored: unknown): object {
+    const merged: { [key: string]: unknown } = { ...defaults };
+    if (!stored || typeof stored !== "object") return merged;
+
+    for (const [key, value] of Object.entries(stored)) {
+        const fallback = merged[key];
+        if (fallback && typeof fallback === "object" && value && typeof value === "object") {
+            merged[key] = mergeObject(fallback, value);
+        } else if (fallback !== undefined && typeof value === typeof fallback) {
+            merged[key] = value;
+        }
+    }
+    return merged;
+}
@@ -1,9 +1,28 @@
 import { DebouncedMutationObserver } from "./DebouncedMutationObserver";
+import { createDefaultSettings, ThreadloafSettings } from "./ThreadloafSettings";
+
+// Where the thread view was scrolled to: a message and how far its row was from the top of the viewport
+export interface ScrollAnchor {
+    messageId: string;
+    offset: number;
+}
+
+// What a channel's view looked like when the user left it
+export interface ChannelViewState {
+    isThreadViewActive: boolean;
+    expandedMessageId: string | null;
+    scrollAnchor: ScrollAnchor | null;
+    collapsedMessageIds: Set<string>;
+    viewRootId: string | null;
+    focusedMessageId: string | null;
+}
 
 /**
  * Manages the global state of the Threadloaf extension.
  * Maintains references to key DOM elements, observers, and UI state flags
  * that need to be accessed across different components of the extension.
+ * The view state of channels the user has left is kept per channel, so
+ * coming back to a channel shows it the way it was.
  */
 export class ThreadloafState {
     public appContainer: HTMLElement | null = null;
@@ -14,5 +33,47 @@ export class ThreadloafState {
     public isTopLoaded: boolean = false;
     public isLoadingMore: boolean = false;
     public newestMessageId: string | null = null;
+    public expandedMessageId: string | null = null;
+    public collapsedMessageIds = new Set<string>(); // Messages whose replies are hidden
+    public viewRootId: string | null = null; // Message a deep branch is shown from, or null for the whole thread
+    public focusedMessageId: string | null = null; // Message whose conversation alone is shown, if any
     public pendingScrollToNewest: { shouldExpand: boolean } | null = null;
+    public pendingScrollAnchor: ScrollAnchor | null = null; // Restored on the next new thread view
+    public baseSettings: ThreadloafSettings = createDefaultSettings(); // Before per-channel preferences
+    public settings: ThreadloafSettings = createDefaultSettings();
+    public channelId: string | null = null;
+    public channelStates = new Map<string, ChannelViewState>();
+
+    // Remember the view of the channel we're leaving and bring back the view of the one we're entering.
+    // Channels we haven't been in yet start in their saved mode, or else the current one, with nothing expanded or collapsed.
+    public switchChannel(channelId: string, scrollAnchor: ScrollAnchor | null, preferThreadView?: boolean): void {
+        if (this.channelId) {
+            this.channelStates.set(this.channelId, {
+                isThreadViewActive: this.isThreadViewActive,
+                expandedMessageId: this.expandedMessageId,
+                scrollAnchor,
+                collapsedMessageIds: this.collapsedMessageIds,
+                viewRootId: this.viewRootId,
+                focusedMessageId: this.focusedMessageId,
+            });
+        }
+
+        const saved = this.channelStates.get(channelId);
+        this.channelId = channelId;
+        if (saved) {
+            this.isThreadViewActive = saved.isThreadViewActive;
+        } else if (preferThreadView !== undefined) {
+            this.isThreadViewActive = preferThreadView;
+        }
+        this.expandedMessageId = saved ? saved.expandedMessageId : null;
+        this.pendingScrollAnchor = saved ? saved.scrollAnchor : null;
+        this.collapsedMessageIds = saved ? saved.collapsedMessageIds : new Set();
+        this.viewRootId = saved ? saved.viewRootId : null;
+        this.focusedMessageId = saved ? saved.focusedMessageId : null;
+
+        // What we knew about the previous channel's messages doesn't apply here
+        this.newestMessageId = null;
+        this.isTopLoaded = false;
+        this.pendingScrollToNewest = null;
+    }
 }
@@ -0,0 +1,62 @@
+import { assertEqual, deepEqual, Test } from "./test_utils";
+import { ThreadloafState } from "./ThreadloafState";
+
+export class ThreadloafStateTest {
+    async getTests(): Promise<Test[]> {
+        return [
+            {
+                name: "channels are shown the way they were left",
+                fn: () => {
+                    const state = new ThreadloafState();
+                    state.switchChannel("A", null);
+                    state.isThreadViewActive = true;
+                    state.expandedMessageId = "A2";
+                    state.collapsedMessageIds.add("A1");
+                    state.viewRootId = "A1";
+                    state.focusedMessageId = "A2";
+
+                    state.switchChannel("B", { messageId: "A1", offset: -40 });
+                    state.isThreadViewActive = false;
+                    assertEqual(state.collapsedMessageIds.size, 0);
+                    assertEqual(state.viewRootId, null);
+                    assertEqual(state.focusedMessageId, null);
+                    state.switchChannel("A", null);
+
+                    assertEqual(state.channelId, "A");
+                    assertEqual(state.isThreadViewActive, true);
+                    assertEqual(state.expandedMessageId, "A2");
+                    deepEqual(state.pendingScrollAnchor, { messageId: "A1", offset: -40 });
+                    deepEqual(Array.from(state.collapsedMessageIds), ["A1"]);
+                    assertEqual(state.viewRootId, "A1");
+                    assertEqual(state.focusedMessageId, "A2");
+
+                    state.switchChannel("B", null);
+                    assertEqual(state.isThreadViewActive, false);
+                },
+            },
+            {
+                name: "new channels start in the current mode without the previous channel's messages",
+                fn: () => {
+                    const state = new ThreadloafState();
+                    state.switchChannel("A", null);
+                    state.isThreadViewActive = true;
+                    state.expandedMessageId = "A2";
+                    state.newestMessageId = "A3";
+                    state.isTopLoaded = true;
+
+                    state.switchChannel("B", { messageId: "A1", offset: 0 });
+
+                    assertEqual(state.isThreadViewActive, true);
+                    assertEqual(state.expandedMessageId, null);
+                    assertEqual(state.pendingScrollAnchor, null);
+                    assertEqual(state.newestMessageId, null);
+                    assertEqual(state.isTopLoaded, false);
+
+                    // Unless the new channel has a saved preference
+                    state.switchChannel("C", null, false);
+                    assertEqual(state.isThreadViewActive, false);
+                },
+            },
+        ];
+    }
+}
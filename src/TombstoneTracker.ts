@@ -0,0 +1,78 @@
+import { MessageInfo } from "./MessageInfo";
+
+/**
+ * Remembers the messages seen in each channel during this session so that deleted
+ * messages can be replaced by tombstones. Discord also unloads messages as you
+ * scroll, so a message only counts as deleted when it disappears from within the
+ * range of messages that is still loaded.
+ */
+export class TombstoneTracker {
+    private seenByChannel = new Map<string, Map<string, MessageInfo>>();
+    private deletedByChannel = new Map<string, Map<string, MessageInfo>>();
+
+    // Remember the loaded messages and return tombstones for deleted ones within the loaded range. Pass every
+    // message Discord shows, including those the user has hidden: whatever is missing is taken to be deleted.
+    public update(channelId: string, messages: MessageInfo[]): MessageInfo[] {
+        const seen = this.getOrCreate(this.seenByChannel, channelId);
+        const deleted = this.getOrCreate(this.deletedByChannel, channelId);
+
+        // Messages that failed to parse are still there, but have no real timestamp or content to remember
+        const present = messages.filter((msg) => !msg.isGhost && !msg.isDeleted);
+        const loaded = present.filter((msg) => !msg.isError);
+        if (loaded.length === 0) return [];
+
+        const presentIds = new Set(present.map((msg) => msg.id));
+        const oldest = Math.min(...loaded.map((msg) => msg.timestamp));
+        const newest = Math.max(...loaded.map((msg) => msg.timestamp));
+
+        for (const [id, message] of seen) {
+            if (!presentIds.has(id) && message.timestamp >= oldest && message.timestamp <= newest) {
+                deleted.set(id, this.createTombstone(message));
+                seen.delete(id);
+            }
+        }
+
+        for (const message of loaded) {
+            // Copy it now, before threading overwrites the parent ID parsed from the reply
+            seen.set(message.id, { ...message });
+        }
+        for (const message of present) {
+            deleted.delete(message.id); // It came back, so it wasn't deleted after all
+        }
+
+        return Array.from(deleted.values()).filter(
+            (tombstone) => tombstone.timestamp >= oldest && tombstone.timestamp <= newest,
+        );
+    }
+
+    private getOrCreate(maps: Map<string, Map<string, MessageInfo>>, channelId: string): Map<string, MessageInfo> {
+        let map = maps.get(channelId);
+        if (!map) {
+            map = new Map();
+            maps.set(channelId, map);
+        }
+        return map;
+    }
+
+    // Keep what's needed to thread the tombstone where the message was, but none of its content
+    private createTombstone(message: MessageInfo): MessageInfo {
+        const content = `[deleted message by ${message.author}]`;
+        const span = document.createElement("span");
+        span.textContent = content;
+
+        return {
+            id: message.id,
+            author: message.author,
+            authorId: message.authorId,
+            avatarUrl: message.avatarUrl,
+            roleColor: message.roleColor,
+            timestamp: message.timestamp,
+            content,
+            htmlContent: span.outerHTML,
+            parentId: message.parentId,
+            parentPreview: message.parentPreview,
+            children: [],
+            isDeleted: true,
+        };
+    }
+}
@@ -0,0 +1,86 @@
+import { createMessage, deepEqual, Test } from "./test_utils";
+import { TombstoneTracker } from "./TombstoneTracker";
+
+export class TombstoneTrackerTest {
+    async getTests(): Promise<Test[]> {
+        return [
+            {
+                name: "message removed from the middle becomes a tombstone",
+                fn: () => {
+                    const tracker = new TombstoneTracker();
+                    const a1 = createMessage("A1", "alice", 0);
+                    const b1 = createMessage("B1", "bob", 1, { parentId: "A1" });
+                    const c1 = createMessage("C1", "carol", 2, { parentId: "B1" });
+                    deepEqual(tracker.update("chan", [a1, b1, c1]), []);
+
+                    const tombstones = tracker.update("chan", [a1, c1]);
+                    deepEqual(tombstones, [
+                        {
+                            id: "B1",
+                            author: "bob",
+                            timestamp: 60 * 1000,
+                            content: "[deleted message by bob]",
+                            htmlContent: "<span>[deleted message by bob]</span>",
+                            parentId: "A1",
+                            children: [],
+                            isDeleted: true,
+                        },
+                    ]);
+                },
+            },
+            {
+                name: "messages unloaded at the edges are not treated as deleted",
+                fn: () => {
+                    const tracker = new TombstoneTracker();
+                    const a1 = createMessage("A1", "alice", 0);
+                    const b1 = createMessage("B1", "bob", 1);
+                    const c1 = createMessage("C1", "carol", 2);
+                    tracker.update("chan", [a1, b1, c1]);
+                    deepEqual(tracker.update("chan", [b1, c1]), []);
+                    deepEqual(tracker.update("chan", [a1, b1]), []);
+                },
+            },
+            {
+                name: "tombstones persist and stay per channel",
+                fn: () => {
+                    const tracker = new TombstoneTracker();
+                    const a1 = createMessage("A1", "alice", 0);
+                    const b1 = createMessage("B1", "bob", 1);
+                    const c1 = createMessage("C1", "carol", 2);
+                    tracker.update("chan", [a1, b1, c1]);
+                    tracker.update("chan", [a1, c1]);
+                    deepEqual(
+                        tracker.update("chan", [a1, c1]).map((msg) => msg.id),
+                        ["B1"],
+                    );
+                    deepEqual(tracker.update("other", [a1, c1]), []);
+                },
+            },
+            {
+                name: "message that comes back is no longer a tombstone",
+                fn: () => {
+                    const tracker = new TombstoneTracker();
+                    const a1 = createMessage("A1", "alice", 0);
+                    const b1 = createMessage("B1", "bob", 1);
+                    const c1 = createMessage("C1", "carol", 2);
+                    tracker.update("chan", [a1, b1, c1]);
+                    tracker.update("chan", [a1, c1]);
+                    deepEqual(tracker.update("chan", [a1, b1, c1]), []);
+                },
+            },
+            {
+                name: "message that fails to parse is not taken for deleted",
+                fn: () => {
+                    const tracker = new TombstoneTracker();
+                    const a1 = createMessage("A1", "alice", 0);
+                    const b1 = createMessage("B1", "bob", 1);
+                    const c1 = createMessage("C1", "carol", 2);
+                    tracker.update("chan", [a1, b1, c1]);
+
+                    const b1Error = createMessage("B1", "Error", 60, { isError: true });
+                    deepEqual(tracker.update("chan", [a1, b1Error, c1]), []);
+                },
+            },
+        ];
+    }
+}
@@ -0,0 +1,139 @@
+import { MessageInfo } from "./MessageInfo";
+
+const LAST_SEEN_KEY = "threadloafLastSeen";
+const LEGACY_READ_STATE_KEY = "threadloafReadState"; // Kept read messages one by one; folded into LAST_SEEN_KEY
+const MAX_CHANNELS = 500; // Channels visited longest ago are forgotten beyond this
+
+// The channel being read: what counts as new, and what has been read of it since the visit started
+interface Visit {
+    channelId: string;
+    threshold: number; // Messages newer than this are new in this visit
+    readIds: Set<string>; // New messages read one by one during this visit
+}
+
+/**
+ * Remembers the newest message seen in each channel, so that the next visit can point out
+ * what arrived in between. The threshold for "new" is fixed when a visit starts and stays
+ * put while the user reads, so markers don't vanish as soon as the thread renders; reading
+ * a new message clears its own marker, and marking everything as read moves the threshold
+ * up to the newest message. Kept in local storage only, since it changes with every message.
+ */
+export class UnreadTracker {
+    private storage: typeof chrome.storage | null;
+    private lastSeen: { [channelId: string]: number } = {}; // Newest message timestamp seen per channel
+    private visit: Visit | null = null;
+
+    // Without storage (as in tests) what was seen is only kept in memory
+    constructor(storage: typeof chrome.storage | null) {
+        this.storage = storage;
+    }
+
+    public async load(): Promise<void> {
+        if (!this.storage) return;
+
+        try {
+            const stored = await this.storage.local.get([LAST_SEEN_KEY, LEGACY_READ_STATE_KEY]);
+            this.lastSeen = stored[LAST_SEEN_KEY] || {};
+
+            // Everything up to where an older version had read through was seen
+            const legacy: { [channelId: string]: { readThrough: number } } | undefined = stored[LEGACY_READ_STATE_KEY];
+            if (legacy) {
+                for (const [channelId, { readThrough }] of Object.entries(legacy)) {
+                    this.lastSeen[channelId] = Math.max(this.lastSeen[channelId] ?? readThrough, readThrough);
+                }
+                await this.storage.local.set({ [LAST_SEEN_KEY]: this.lastSeen });
+                await this.storage.local.remove(LEGACY_READ_STATE_KEY);
+            }
+        } catch (error) {
+            console.error("Threadloaf: Error loading last seen messages:", error);
+        }
+    }
+
+    // Mark new messages, and count the new replies below every message, in a channel's message tree. Returns
+    // how many messages are new. The first call for a channel starts a visit, and every call records the
+    // newest message as seen for the next visit.
+    public markUnread(channelId: string, rootMessages: MessageInfo[]): number {
+        const newest = this.findNewestTimestamp(rootMessages);
+        if (newest === null) return 0; // Nothing loaded yet; don't start the visit on an empty channel
+
+        if (channelId !== this.visit?.channelId) {
+            // On the first visit to a channel nothing is new
+            const threshold = this.lastSeen[channelId] !== undefined ? this.lastSeen[channelId] : newest;
+            this.visit = { channelId, threshold, readIds: new Set() };
+        }
+
+        if (this.lastSeen[channelId] === undefined || newest > this.lastSeen[channelId]) {
+            this.lastSeen[channelId] = newest;
+            this.save();
+        }
+
+        const { threshold, readIds } = this.visit;
+        let total = 0;
+        const mark = (message: MessageInfo): number => {
+            const childCount = (message.children || []).reduce((count, child) => count + mark(child), 0);
+            message.isUnread = this.isMessage(message) && message.timestamp > threshold && !readIds.has(message.id);
+            message.unreadReplyCount = childCount;
+            if (message.isUnread) total++;
+            return childCount + (message.isUnread ? 1 : 0);
+        };
+        rootMessages.forEach(mark);
+        return total;
+    }
+
+    // Mark a single new message as read for the rest of the visit; returns whether it was unread
+    public markRead(channelId: string, message: MessageInfo): boolean {
+        if (channelId !== this.visit?.channelId || message.timestamp <= this.visit.threshold) {
+            return false;
+        }
+        if (this.visit.readIds.has(message.id)) {
+            return false;
+        }
+
+        this.visit.readIds.add(message.id);
+        return true;
+    }
+
+    // Treat everything in the channel up to the given message time as read
+    public markAllRead(channelId: string, newestTimestamp: number): void {
+        if (channelId !== this.visit?.channelId) return;
+
+        this.visit.threshold = Math.max(this.visit.threshold, newestTimestamp);
+        this.visit.readIds.clear();
+    }
+
+    // Only real messages can be new; placeholders, tombstones, and system events don't count
+    private isMessage(message: MessageInfo): boolean {
+        return !message.isGhost && !message.isDeleted && !message.kind;
+    }
+
+    private findNewestTimestamp(messages: MessageInfo[]): number | null {
+        let newest: number | null = null;
+        const visit = (message: MessageInfo) => {
+            if (this.isMessage(message) && (newest === null || message.timestamp > newest)) {
+                newest = message.timestamp;
+            }
+            (message.children || []).forEach(visit);
+        };
+        messages.forEach(visit);
+        return newest;
+    }
+
+    private async save(): Promise<void> {
+        if (!this.storage) return;
+
+        // Forget the channels seen longest ago, so the stored map can't grow without bound
+        const channelIds = Object.keys(this.lastSeen);
+        if (channelIds.length > MAX_CHANNELS) {
+            channelIds
+                .sort((a, b) => this.lastSeen[a] - this.lastSeen[b])
+                .slice(0, channelIds.length - MAX_CHANNELS)
+                .forEach((channelId) => delete this.lastSeen[channelId]);
+        }
+
+        try {
+            await this.storage.local.set({ [LAST_SEEN_KEY]: this.lastSeen });
+        } catch (error) {
+            console.error("Threadloaf: Error saving last seen messages:", error);
+        }
+    }
+}
@@ -0,0 +1,83 @@
+import { assertEqual, deepEqual, Test } from "./test_utils";
+import { MessageInfo } from "./MessageInfo";
+import { UnreadTracker } from "./UnreadTracker";
+
+export class UnreadTrackerTest {
+    private message(id: string, timestamp: number, children: MessageInfo[] = []): MessageInfo {
+        return { id, author: "alice", timestamp, content: id, htmlContent: id, children };
+    }
+
+    // A root with an older reply, plus a second root; the timestamps are minutes
+    private thread(extra: MessageInfo[] = []): MessageInfo[] {
+        return [this.message("A", 1, [this.message("B", 2, extra)]), this.message("C", 3)];
+    }
+
+    async getTests(): Promise<Test[]> {
+        return [
+            {
+                name: "nothing is new on the first visit to a channel",
+                fn: () => {
+                    const tracker = new UnreadTracker(null);
+                    const roots = this.thread();
+                    assertEqual(tracker.markUnread("chan", roots), 0);
+                    assertEqual(roots[0].isUnread, false);
+                    assertEqual(roots[0].unreadReplyCount, 0);
+                },
+            },
+            {
+                name: "later messages are unread and counted on their ancestors",
+                fn: () => {
+                    const tracker = new UnreadTracker(null);
+                    tracker.markUnread("chan", this.thread());
+
+                    const roots = this.thread([this.message("D", 4, [this.message("E", 5)])]);
+                    assertEqual(tracker.markUnread("chan", roots), 2);
+                    const b = roots[0].children![0];
+                    const d = b.children![0];
+                    deepEqual(
+                        [roots[0].unreadReplyCount, b.unreadReplyCount, d.unreadReplyCount, roots[1].unreadReplyCount],
+                        [2, 2, 1, 0],
+                    );
+                    deepEqual([b.isUnread, d.isUnread, d.children![0].isUnread], [false, true, true]);
+
+                    // Other channels are tracked separately
+                    assertEqual(tracker.markUnread("other", this.thread()), 0);
+                },
+            },
+            {
+                name: "messages stay unread until they're read",
+                fn: () => {
+                    const tracker = new UnreadTracker(null);
+                    tracker.markUnread("chan", this.thread());
+                    const d = this.message("D", 4);
+                    const e = this.message("E", 5);
+                    assertEqual(tracker.markUnread("chan", this.thread([d, e])), 2);
+
+                    assertEqual(tracker.markRead("chan", e), true);
+                    assertEqual(tracker.markRead("chan", e), false);
+                    assertEqual(tracker.markUnread("chan", this.thread([d, e])), 1);
+
+                    tracker.markAllRead("chan", 5);
+                    assertEqual(tracker.markUnread("chan", this.thread([d, e])), 0);
+                    assertEqual(tracker.markRead("chan", d), false);
+                },
+            },
+            {
+                name: "the next visit shows only what arrived after the last one",
+                fn: () => {
+                    const tracker = new UnreadTracker(null);
+                    tracker.markUnread("chan", this.thread());
+                    const d = this.message("D", 4);
+                    assertEqual(tracker.markUnread("chan", this.thread([d])), 1);
+
+                    // Leaving the channel ends the visit; what was loaded then counts as seen, read or not
+                    tracker.markUnread("other", this.thread());
+                    assertEqual(tracker.markUnread("chan", this.thread([d])), 0);
+                    const roots = this.thread([d, this.message("E", 5)]);
+                    assertEqual(tracker.markUnread("chan", roots), 1);
+                    assertEqual(roots[0].children![0].children![1].isUnread, true);
+                },
+            },
+        ];
+    }
+}
@@ -0,0 +1,257 @@
+import { MessageInfo } from "./MessageInfo";
+import { MessageElementFactory, MessageReconciler, MessageRow } from "./MessageReconciler";
+import { ScrollAnchor, ThreadloafState } from "./ThreadloafState";
+
+const ESTIMATED_ROW_HEIGHT = 24; // A collapsed row; used until a row has been mounted and measured
+const OVERSCAN_PX = 800; // How far beyond the viewport rows stay mounted
+
+/**
+ * Shows the flattened thread inside #threadloaf-content, mounting only the rows near the
+ * viewport. The rows that aren't mounted are stood in for by padding worked out from the
+ * measured (or estimated) row heights. Expanding and scrolling to messages goes through
+ * here, so that navigation works for messages that have no element at the moment.
+ */
+export class VirtualThreadList {
+    private state: ThreadloafState;
+    private messageReconciler: MessageReconciler;
+    private scrollContainer: HTMLElement | null = null;
+    private threadEl: HTMLElement | null = null;
+    private factory: MessageElementFactory | null = null;
+    private rows: MessageRow[] = [];
+    private indexById = new Map<string, number>();
+    private heights = new Map<string, number>();
+    private offsets: number[] | null = null; // Kept until the rows or their heights change
+    private isRenderScheduled = false;
+    private expandListeners = new Set<(message: MessageInfo) => void>();
+
+    constructor(state: ThreadloafState, messageReconciler: MessageReconciler) {
+        this.state = state;
+        this.messageReconciler = messageReconciler;
+    }
+
+    // Render into a new container; rows from a previous container, and their heights, are dropped. A new
+    // container comes with every channel switch, so heights don't pile up across channels.
+    public attach(scrollContainer: HTMLElement, threadEl: HTMLElement): void {
+        if (this.threadEl === threadEl) return;
+
+        this.scrollContainer?.removeEventListener("scroll", this.handleScroll);
+        this.scrollContainer = scrollContainer;
+        this.threadEl = threadEl;
+        this.rows = [];
+        this.indexById.clear();
+        this.heights.clear();
+        this.offsets = null;
+        scrollContainer.addEventListener("scroll", this.handleScroll, { passive: true });
+    }
+
+    // Show the given rows, keeping the expanded message (or else the last message) where it was in
+    // the viewport when rows are added or removed above it
+    public setRows(rows: MessageRow[], factory: MessageElementFactory): void {
+        const anchorId = this.findAnchorId();
+        const anchorOffset =
+            anchorId && this.scrollContainer ? this.getRowTop(anchorId) - this.scrollContainer.scrollTop : null;
+
+        this.rows = rows;
+        this.factory = factory;
+        this.indexById = new Map(rows.map((row, index) => [row.message.id, index]));
+        this.offsets = null;
+        this.render();
+
+        if (anchorId && anchorOffset !== null && this.scrollContainer && this.indexById.has(anchorId)) {
+            // Once more after mounting around the anchor, since that measures rows that were only estimated.
+            // Leave the scroll position alone when the anchor hasn't moved, so smooth scrolling isn't cut short.
+            this.scrollAnchorTo(anchorId, anchorOffset);
+            this.render();
+            this.scrollAnchorTo(anchorId, anchorOffset);
+        }
+    }
+
+    public hasMessage(messageId: string): boolean {
+        return this.indexById.has(messageId);
+    }
+
+    // Whether the message is a real message that can be expanded, as opposed to a placeholder or marker
+    public canExpand(messageId: string): boolean {
+        const index = this.indexById.get(messageId);
+        return index !== undefined && VirtualThreadList.isExpandable(this.rows[index].message);
+    }
+
+    // The messages that can be expanded, in display order, whether or not they are mounted
+    public getExpandableMessages(): MessageInfo[] {
+        return this.rows.map((row) => row.message).filter((message) => VirtualThreadList.isExpandable(message));
+    }
+
+    // The element of a message whose row is mounted
+    public findElement(messageId: string): HTMLElement | null {
+        return this.threadEl?.querySelector(`[data-msg-id="${messageId}"]`) || null;
+    }
+
+    // Expand a message, collapsing any other, and optionally scroll it into view
+    public expandMessage(messageId: string, scrollBehavior?: ScrollBehavior): void {
+        this.collapseMessage();
+        this.state.expandedMessageId = messageId;
+
+        const el = this.findElement(messageId);
+        if (el) {
+            VirtualThreadList.setExpanded(el, true);
+        }
+        this.render(); // The expanded row is taller now
+
+        if (scrollBehavior) {
+            this.scrollToMessage(messageId, scrollBehavior);
+        }
+
+        const index = this.indexById.get(messageId);
+        if (index !== undefined) {
+            this.expandListeners.forEach((listener) => listener(this.rows[index].message));
+        }
+    }
+
+    // Call the listener whenever a message is expanded, by any means; returns a function that unsubscribes
+    public onExpand(listener: (message: MessageInfo) => void): () => void {
+        this.expandListeners.add(listener);
+        return () => this.expandListeners.delete(listener);
+    }
+
+    public collapseMessage(): void {
+        this.state.expandedMessageId = null;
+        this.threadEl?.querySelectorAll<HTMLElement>(".threadloaf-message.expanded").forEach((el) => {
+            VirtualThreadList.setExpanded(el, false);
+        });
+    }
+
+    // Center a message in the viewport, mounting its row first if needed
+    public scrollToMessage(messageId: string, behavior: ScrollBehavior = "auto"): boolean {
+        const index = this.indexById.get(messageId);
+        if (index === undefined || !this.scrollContainer) return false;
+
+        let el = this.findElement(messageId);
+        if (!el) {
+            // Jump to roughly where the row is so it gets mounted, then line it up exactly
+            this.scrollContainer.scrollTop =
+                this.getRowTop(messageId) - this.scrollContainer.clientHeight / 2 + ESTIMATED_ROW_HEIGHT / 2;
+            this.render();
+            el = this.findElement(messageId);
+            behavior = "auto";
+        }
+
+        el?.scrollIntoView({ behavior, block: "center" });
+        return true;
+    }
+
+    // The row at the top of the viewport and how far it is from the top, to come back to later
+    public getScrollAnchor(): ScrollAnchor | null {
+        if (!this.scrollContainer || this.rows.length === 0) return null;
+
+        const offsets = this.getOffsets();
+        const top = this.scrollContainer.scrollTop - this.getListTop();
+        let index = 0;
+        while (index < this.rows.length - 1 && offsets[index + 1] <= top) index++;
+        return { messageId: this.rows[index].message.id, offset: offsets[index] - top };
+    }
+
+    // Scroll back to a saved anchor; false if its message isn't in the thread
+    public restoreScrollAnchor(anchor: ScrollAnchor): boolean {
+        if (!this.scrollContainer || !this.indexById.has(anchor.messageId)) return false;
+
+        // Twice, like in setRows, since mounting the rows around the anchor measures them
+        this.scrollContainer.scrollTop = this.getRowTop(anchor.messageId) - anchor.offset;
+        this.render();
+        this.scrollContainer.scrollTop = this.getRowTop(anchor.messageId) - anchor.offset;
+        return true;
+    }
+
+    // Show a message element's full content instead of its preview, or the other way around
+    public static setExpanded(el: HTMLElement, expanded: boolean): void {
+        el.classList.toggle("expanded", expanded);
+        const previewContainer = el.querySelector(".preview-container") as HTMLElement;
+        const fullContentContainer = el.querySelector(".full-content") as HTMLElement;
+        if (previewContainer) previewContainer.style.display = expanded ? "none" : "flex";
+        if (fullContentContainer) fullContentContainer.style.display = expanded ? "block" : "none";
+    }
+
+    private static isExpandable(message: MessageInfo): boolean {
+        return !message.isGhost && !message.kind && !message.isDeleted;
+    }
+
+    private handleScroll = (): void => {
+        if (this.isRenderScheduled) return;
+        this.isRenderScheduled = true;
+        requestAnimationFrame(() => {
+            this.isRenderScheduled = false;
+            this.render();
+        });
+    };
+
+    // Mount the rows near the viewport and pad the list out to its full height
+    private render(): void {
+        const { scrollContainer, threadEl, factory } = this;
+        if (!scrollContainer || !threadEl || !factory) return;
+
+        const offsets = this.getOffsets();
+        const listTop = this.getListTop();
+        const windowTop = scrollContainer.scrollTop - listTop - OVERSCAN_PX;
+        const windowBottom = scrollContainer.scrollTop - listTop + scrollContainer.clientHeight + OVERSCAN_PX;
+
+        let start = 0;
+        while (start < this.rows.length && offsets[start + 1] <= windowTop) start++;
+        let end = start;
+        while (end < this.rows.length && offsets[end] < windowBottom) end++;
+
+        this.messageReconciler.reconcile(threadEl, this.rows.slice(start, end), factory);
+        threadEl.style.paddingTop = `${offsets[start]}px`;
+        threadEl.style.paddingBottom = `${offsets[this.rows.length] - offsets[end]}px`;
+
+        // Measure what's mounted so the padding gets more accurate as the user scrolls around
+        Array.from(threadEl.children).forEach((rowEl, i) => {
+            const height = (rowEl as HTMLElement).offsetHeight;
+            const id = this.rows[start + i].message.id;
+            if (height > 0 && height !== this.heights.get(id)) {
+                this.heights.set(id, height);
+                this.offsets = null;
+            }
+        });
+    }
+
+    private scrollAnchorTo(anchorId: string, anchorOffset: number): void {
+        const scrollTop = this.getRowTop(anchorId) - anchorOffset;
+        if (this.scrollContainer && Math.abs(this.scrollContainer.scrollTop - scrollTop) >= 1) {
+            this.scrollContainer.scrollTop = scrollTop;
+        }
+    }
+
+    private findAnchorId(): string | null {
+        if (this.state.expandedMessageId && this.indexById.has(this.state.expandedMessageId)) {
+            return this.state.expandedMessageId;
+        }
+        const messages = this.getExpandableMessages();
+        return messages.length > 0 ? messages[messages.length - 1].id : null;
+    }
+
+    // Top of each row relative to the top of the list, plus the total height at the end
+    private getOffsets(): number[] {
+        if (!this.offsets) {
+            const offsets = [0];
+            this.rows.forEach((row, index) => {
+                offsets.push(offsets[index] + (this.heights.get(row.message.id) || ESTIMATED_ROW_HEIGHT));
+            });
+            this.offsets = offsets;
+        }
+        return this.offsets;
+    }
+
+    // Top of a row in the scroll container's coordinates
+    private getRowTop(messageId: string): number {
+        const index = this.indexById.get(messageId) || 0;
+        return this.getListTop() + this.getOffsets()[index];
+    }
+
+    private getListTop(): number {
+        if (!this.scrollContainer || !this.threadEl) return 0;
+        return (
+            this.threadEl.getBoundingClientRect().top -
+            this.scrollContainer.getBoundingClientRect().top +
+            this.scrollContainer.scrollTop
+        );
+    }
+}
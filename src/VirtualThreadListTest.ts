@@ -0,0 +1,88 @@
+import { assertEqual, createElementFactory, deepEqual, Test } from "./test_utils";
+import { MessageReconciler, MessageRow } from "./MessageReconciler";
+import { ThreadloafState } from "./ThreadloafState";
+import { VirtualThreadList } from "./VirtualThreadList";
+
+export class VirtualThreadListTest {
+    private factory = createElementFactory();
+
+    // A flat thread of the given number of root messages, one minute apart
+    private rows(count: number): MessageRow[] {
+        return Array.from({ length: count }, (_, i) => ({
+            message: { id: `M${i}`, author: "alice", timestamp: i * 60 * 1000, content: `M${i}`, htmlContent: "" },
+            depth: 0,
+        }));
+    }
+
+    private createList(): { list: VirtualThreadList; state: ThreadloafState; threadEl: HTMLElement } {
+        const state = new ThreadloafState();
+        const list = new VirtualThreadList(state, new MessageReconciler(state));
+        const scrollContainer = document.createElement("div");
+        const threadEl = document.createElement("div");
+        scrollContainer.appendChild(threadEl);
+        list.attach(scrollContainer, threadEl);
+        return { list, state, threadEl };
+    }
+
+    async getTests(): Promise<Test[]> {
+        return [
+            {
+                name: "mounts only the rows near the viewport",
+                fn: () => {
+                    const { list, threadEl } = this.createList();
+                    list.setRows(this.rows(2000), this.factory);
+                    assertEqual(threadEl.children.length > 0, true);
+                    assertEqual(threadEl.children.length < 100, true);
+                    assertEqual(threadEl.firstElementChild?.textContent, "M0");
+                    assertEqual(parseInt(threadEl.style.paddingBottom) > 0, true);
+                },
+            },
+            {
+                name: "navigation covers rows that aren't mounted",
+                fn: () => {
+                    const { list, state } = this.createList();
+                    const rows = this.rows(2000);
+                    rows[1].message.isGhost = true;
+                    list.setRows(rows, this.factory);
+
+                    assertEqual(list.getExpandableMessages().length, 1999);
+                    assertEqual(list.canExpand("M1"), false);
+                    assertEqual(list.canExpand("M1999"), true);
+
+                    list.expandMessage("M1999");
+                    assertEqual(state.expandedMessageId, "M1999");
+                    list.collapseMessage();
+                    assertEqual(state.expandedMessageId, null);
+                },
+            },
+            {
+                name: "expanding a mounted message collapses the previous one",
+                fn: () => {
+                    const { list, threadEl } = this.createList();
+                    list.setRows(this.rows(3), this.factory);
+                    list.expandMessage("M0");
+                    list.expandMessage("M2");
+                    deepEqual(
+                        Array.from(threadEl.querySelectorAll<HTMLElement>(".expanded")).map((el) => el.dataset.msgId),
+                        ["M2"],
+                    );
+                },
+            },
+            {
+                name: "expand listeners hear about every expansion until they unsubscribe",
+                fn: () => {
+                    const { list } = this.createList();
+                    list.setRows(this.rows(3), this.factory);
+                    const expanded: string[] = [];
+                    const unsubscribe = list.onExpand((message) => expanded.push(message.id));
+
+                    list.expandMessage("M0");
+                    list.expandMessage("M2");
+                    unsubscribe();
+                    list.expandMessage("M1");
+                    deepEqual(expanded, ["M0", "M2"]);
+                },
+            },
+        ];
+    }
+}
@@ -5,15 +5,78 @@ import { ThreadloafState } from "./ThreadloafState";
 import { ThreadRenderer } from "./ThreadRenderer";
 import { Threadloaf } from "./Threadloaf";
 import { DomMutator } from "./DomMutator";
+import { EditHistory } from "./EditHistory";
+import { TombstoneTracker } from "./TombstoneTracker";
+import { MessageReconciler } from "./MessageReconciler";
+import { VirtualThreadList } from "./VirtualThreadList";
+import { Lifecycle } from "./Lifecycle";
+import { MutationClassifier } from "./MutationClassifier";
+import { ThreadEventBus } from "./ThreadEvents";
+import { PreferenceStore } from "./PreferenceStore";
+import { SettingsStore } from "./SettingsStore";
+import { UnreadTracker } from "./UnreadTracker";
 import { runTests } from "./runTests";
 
-(function () {
+// Set up Threadloaf on the page, with everything it needs
+function install(settingsStore: SettingsStore): Threadloaf {
     const state = new ThreadloafState();
+    const lifecycle = new Lifecycle();
+    const threadEvents = new ThreadEventBus();
+    const preferenceStore = new PreferenceStore(chrome.storage);
+    const unreadTracker = new UnreadTracker(chrome.storage);
     const messageParser = new MessageParser();
     const messageTreeBuilder = new MessageTreeBuilder();
-    const domMutator = new DomMutator(state);
-    const domParser = new DomParser(domMutator, state);
-    const threadRenderer = new ThreadRenderer(state, domParser, domMutator, messageParser, messageTreeBuilder);
-    new Threadloaf(state, domParser, domMutator, threadRenderer);
+    const messageReconciler = new MessageReconciler(state);
+    const threadList = new VirtualThreadList(state, messageReconciler);
+    const domMutator = new DomMutator(state, threadList, lifecycle);
+    const domParser = new DomParser(domMutator, state, lifecycle, new MutationClassifier());
+    const editHistory = new EditHistory();
+    const tombstoneTracker = new TombstoneTracker();
+    const threadRenderer = new ThreadRenderer(
+        state,
+        domParser,
+        domMutator,
+        messageParser,
+        messageTreeBuilder,
+        editHistory,
+        tombstoneTracker,
+        threadList,
+        lifecycle,
+        preferenceStore,
+        unreadTracker,
+    );
+    return new Threadloaf(
+        state,
+        domParser,
+        domMutator,
+        threadRenderer,
+        threadList,
+        lifecycle,
+        threadEvents,
+        preferenceStore,
+        settingsStore,
+        unreadTracker,
+    );
+}
+
+(function () {
+    const settingsStore = new SettingsStore(chrome.storage);
+
+    // Turning Threadloaf off in the popup or on the options page uninstalls it from open tabs, and turning it
+    // back on installs it afresh
+    let threadloaf: Threadloaf | null = null;
+    const setEnabled = (enabled: boolean) => {
+        if (enabled && !threadloaf) {
+            threadloaf = install(settingsStore);
+        } else if (!enabled && threadloaf) {
+            threadloaf.uninstall();
+            threadloaf = null;
+        }
+    };
+    settingsStore.load().then((settings) => {
+        setEnabled(settings.enabled);
+        settingsStore.subscribe((settings) => setEnabled(settings.enabled));
+    });
+
     runTests();
 })();
@@ -0,0 +1,22 @@
+import { PreferenceStore } from "./PreferenceStore";
+import { createOptionsSections } from "./SettingsFields";
+import { SettingsForm } from "./SettingsForm";
+import { SettingsStore } from "./SettingsStore";
+
+// Entry point for the options page
+(async function () {
+    const form = new SettingsForm(new SettingsStore(chrome.storage));
+    await form.render(document.getElementById("settings")!, createOptionsSections());
+
+    // Remembered views aren't settings; they're kept by the preference store, which decides where they're stored
+    const preferenceStore = new PreferenceStore(chrome.storage);
+    await preferenceStore.load();
+    const syncCheckbox = document.getElementById("sync-preferences") as HTMLInputElement;
+    syncCheckbox.checked = preferenceStore.isSyncEnabled();
+    syncCheckbox.onchange = async () => {
+        // Sync storage can refuse the preferences, e.g. when they're over its size limit; they stay where they were
+        if (!(await preferenceStore.setSyncEnabled(syncCheckbox.checked))) {
+            syncCheckbox.checked = preferenceStore.isSyncEnabled();
+        }
+    };
+})();
@@ -0,0 +1,14 @@
+import { createPopupSections } from "./SettingsFields";
+import { SettingsForm } from "./SettingsForm";
+import { SettingsStore } from "./SettingsStore";
+
+// Entry point for the toolbar popup
+(async function () {
+    const form = new SettingsForm(new SettingsStore(chrome.storage));
+    await form.render(document.getElementById("settings")!, createPopupSections());
+
+    document.getElementById("open-options")!.onclick = (e) => {
+        e.preventDefault();
+        chrome.runtime.openOptionsPage();
+    };
+})();
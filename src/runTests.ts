@@ -1,5 +1,17 @@
+import { EditHistoryTest } from "./EditHistoryTest";
+import { LifecycleTest } from "./LifecycleTest";
 import { MessageParserTest } from "./MessageParserTest";
+import { MessageReconcilerTest } from "./MessageReconcilerTest";
+import { MessageTreeBuilderTest } from "./MessageTreeBuilderTest";
+import { MutationClassifierTest } from "./MutationClassifierTest";
+import { PreferenceStoreTest } from "./PreferenceStoreTest";
+import { SettingsStoreTest } from "./SettingsStoreTest";
 import { Test } from "./test_utils";
+import { ThreadloafStateTest } from "./ThreadloafStateTest";
+import { ThreadRendererTest } from "./ThreadRendererTest";
+import { TombstoneTrackerTest } from "./TombstoneTrackerTest";
+import { UnreadTrackerTest } from "./UnreadTrackerTest";
+import { VirtualThreadListTest } from "./VirtualThreadListTest";
 
 type TestSuite = {
     name: string;
@@ -54,6 +66,18 @@ export async function runTests() {
     const runner = new TestRunner();
 
     runner.registerSuite("MessageParser", await new MessageParserTest().getTests());
+    runner.registerSuite("MessageTreeBuilder", await new MessageTreeBuilderTest().getTests());
+    runner.registerSuite("EditHistory", await new EditHistoryTest().getTests());
+    runner.registerSuite("TombstoneTracker", await new TombstoneTrackerTest().getTests());
+    runner.registerSuite("MessageReconciler", await new MessageReconcilerTest().getTests());
+    runner.registerSuite("VirtualThreadList", await new VirtualThreadListTest().getTests());
+    runner.registerSuite("ThreadRenderer", await new ThreadRendererTest().getTests());
+    runner.registerSuite("Lifecycle", await new LifecycleTest().getTests());
+    runner.registerSuite("MutationClassifier", await new MutationClassifierTest().getTests());
+    runner.registerSuite("ThreadloafState", await new ThreadloafStateTest().getTests());
+    runner.registerSuite("PreferenceStore", await new PreferenceStoreTest().getTests());
+    runner.registerSuite("SettingsStore", await new SettingsStoreTest().getTests());
+    runner.registerSuite("UnreadTracker", await new UnreadTrackerTest().getTests());
 
     return await runner.runAll();
 }
@@ -8,6 +8,9 @@
  * test conditions and throw descriptive errors on failure.
  */
 
+import { MessageInfo } from "./MessageInfo";
+import { MessageElementFactory } from "./MessageReconciler";
+
 export type Test = { name: string; fn: () => void | Promise<void> };
 
 export class AssertionError extends Error {
@@ -142,6 +145,44 @@ export function assertThrows(fn: () => any, expectedError?: string | RegExp): vo
     throw new AssertionError("Expected function to throw an error");
 }
 
+// Test data
+
+// Create a minimal message posted the given number of minutes into the thread
+export function createMessage(
+    id: string,
+    author: string,
+    minutes: number,
+    extra: Partial<MessageInfo> = {},
+): MessageInfo {
+    const content = extra.content ?? id;
+    return {
+        id,
+        author,
+        timestamp: minutes * 60 * 1000,
+        content,
+        htmlContent: `<span>${content}</span>`,
+        ...extra,
+    };
+}
+
+// Builds bare elements that show the message content, counting how many were built
+export function createElementFactory(): MessageElementFactory & { created: number } {
+    const factory = {
+        created: 0,
+        getSignature: (message: MessageInfo) => message.content,
+        createElement: (message: MessageInfo) => {
+            factory.created++;
+            const el = document.createElement("div");
+            el.classList.add("threadloaf-message");
+            el.dataset.msgId = message.id;
+            el.textContent = message.content;
+            return el;
+        },
+        updateElement: () => {},
+    };
+    return factory;
+}
+
 // Helper functions
 function formatValue(value: any): string {
     try {